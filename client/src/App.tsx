@@ -5,7 +5,9 @@ import { useAudio } from "./lib/stores/useAudio";
 import "@fontsource/inter";
 import ChessGame from "./components/ChessGame";
 import GameModeSelector from "./components/GameModeSelector";
+import LoginScreen from "./components/LoginScreen";
 import { useChessGame } from "./lib/stores/useChessGame";
+import { useAuth } from "./lib/stores/useAuth";
 
 // Define control keys for the game
 const controls = [
@@ -18,9 +20,15 @@ const controls = [
 ];
 
 function App() {
-  const { gameMode } = useChessGame();
+  const { gameMode, humanColor } = useChessGame();
+  const { user, status, loadSession } = useAuth();
   const [showCanvas, setShowCanvas] = useState(false);
 
+  // Pick up a login kept by the session cookie
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
   // Show the canvas once everything is loaded
   useEffect(() => {
     setShowCanvas(true);
@@ -30,13 +38,14 @@ function App() {
     <div style={{ width: '100vw', height: '100vh', position: 'relative', overflow: 'hidden' }}>
       {showCanvas && (
         <KeyboardControls map={controls}>
-          {!gameMode && <GameModeSelector />}
+          {!gameMode && status === 'ready' && (user ? <GameModeSelector /> : <LoginScreen />)}
           
           {gameMode && (
             <Canvas
               shadows
               camera={{
-                position: [0, 12, 8],
+                // Look at the board from the human's side (White's for two humans or spectators)
+                position: [0, 12, (gameMode === 'pvc' || gameMode === 'online') && humanColor === 'black' ? -8 : 8],
                 fov: 45,
                 near: 0.1,
                 far: 1000
@@ -1,7 +1,11 @@
 import { Html } from "@react-three/drei";
 import { useChessGame } from "../lib/stores/useChessGame";
 import { useAudio } from "../lib/stores/useAudio";
-import { calculateXPAward } from "../lib/chess/pieceData";
+import { calculateXPAward } from "@shared/game/pieceData";
+import { describeStatus, STATUS_DEFINITIONS } from "@shared/game/statusEffects";
+import { RollBreakdown } from "@shared/game/battleSystem";
+import { CRITICAL_MULTIPLIER } from "@shared/game/combatRules";
+import { ChessPiece } from "@shared/game/types";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Progress } from "./ui/progress";
@@ -26,7 +30,7 @@ export default function BattleModal() {
     return null;
   }
 
-  const { attacker, defender, result, damage, attackerRoll, defenderRoll } = battleState;
+  const { attacker, defender, result, damage, breakdown } = battleState;
 
   // Calculate XP gain for winners
   const getXPGain = () => {
@@ -46,6 +50,37 @@ export default function BattleModal() {
 
   const xpInfo = getXPGain();
 
+  // The piece's statuses after the battle, including any it just picked up
+  const renderStatuses = (piece: ChessPiece) => piece.statuses && (
+    <div className="flex flex-wrap justify-center gap-1 mt-1">
+      {piece.statuses.map(status => (
+        <span
+          key={status.kind}
+          title={STATUS_DEFINITIONS[status.kind].description}
+          className="text-xs bg-purple-900/60 rounded px-1"
+        >
+          {describeStatus(status)}
+        </span>
+      ))}
+    </div>
+  );
+
+  // "17 + 15 attack = 32", with both dice when one was set aside, or just the
+  // stat when the combat mode rolls no dice
+  const renderRoll = (label: string, roll: RollBreakdown, stat: string) => roll.dice.length === 0 ? (
+    <div>{label} {stat}: {roll.total}</div>
+  ) : (
+    <div>
+      <div>{label} Roll: {roll.roll}</div>
+      {roll.edge && (
+        <div className={`text-xs ${roll.edge === 'advantage' ? 'text-green-400' : 'text-red-400'}`}>
+          {roll.edge === 'advantage' ? 'Advantage' : 'Disadvantage'}: {roll.dice.join(' and ')}
+        </div>
+      )}
+      <div className="text-xs text-gray-400">{roll.roll} + {roll.stat} {stat} = {roll.total}</div>
+    </div>
+  );
+
   return (
     <Html position={[0, 5, 5]} center>
       <Card className="w-96 bg-black/90 text-white border-red-600 animate-pulse">
@@ -66,6 +101,7 @@ export default function BattleModal() {
                 className="mt-2"
               />
               <div className="text-xs mt-1">HP: {attacker.health}</div>
+              {renderStatuses(attacker)}
             </div>
             
             <div className="text-center border border-red-500 p-3 rounded">
@@ -77,6 +113,7 @@ export default function BattleModal() {
                 className="mt-2"
               />
               <div className="text-xs mt-1">HP: {defender.health}</div>
+              {renderStatuses(defender)}
             </div>
           </div>
 
@@ -86,12 +123,28 @@ export default function BattleModal() {
               Battle Results
             </div>
             <div className="grid grid-cols-2 gap-2 text-sm">
-              <div>Attacker Roll: {attackerRoll}</div>
-              <div>Defender Roll: {defenderRoll}</div>
+              {renderRoll('Attacker', breakdown.attack, 'attack')}
+              {renderRoll('Defender', breakdown.defense, 'defense')}
             </div>
+            {breakdown.critical && (
+              <div className="font-bold text-orange-400">
+                💥 Critical hit! {breakdown.baseDamage} x{CRITICAL_MULTIPLIER} damage
+              </div>
+            )}
+            {breakdown.fumble && (
+              <div className="font-bold text-red-400">🤕 Fumble! The attack misses</div>
+            )}
             <div className="text-lg font-bold text-yellow-400">
               Damage Dealt: {damage}
             </div>
+            {breakdown.counterDamage > 0 && (
+              <div className="text-sm text-red-300">
+                ↩️ Counter-attack for {breakdown.counterDamage}
+                {breakdown.counterReason === 'fumble' ? ' after the fumble' :
+                  breakdown.counterReason === 'attrition' ? ' in the exchange' :
+                  ', having outrolled the attacker by more than 5'}
+              </div>
+            )}
             {xpInfo && (
               <div className="text-lg font-bold text-green-400">
                 ⭐ {xpInfo.winner.type.toUpperCase()} gains {xpInfo.xpGain} XP!
@@ -11,7 +11,7 @@ const PIECE_Y = SQUARE_HEIGHT / 2 + 0.01; // Position pieces on top of squares
 export default function ChessBoard() {
   const boardRef = useRef<THREE.Group>(null);
   const woodTexture = useTexture("/textures/wood.jpg");
-  const { board, selectedSquare, validMoves, handleSquareClick, isHealMode } = useChessGame();
+  const { board, selectedSquare, validMoves, handleSquareClick, activeAbility } = useChessGame();
 
   // Configure wood texture
   woodTexture.wrapS = woodTexture.wrapT = THREE.RepeatWrapping;
@@ -26,17 +26,11 @@ export default function ChessBoard() {
       const isValidMove = validMoves.some(move => move.row === row && move.col === col);
       const piece = board[row][col];
 
-      // Check if this is a heal target (occupied square with friendly piece when in heal mode)
-      const isHealTarget = isValidMove && isHealMode && piece && selectedSquare &&
-        board[selectedSquare.row][selectedSquare.col] &&
-        board[selectedSquare.row][selectedSquare.col]?.type === 'bishop' &&
-        piece.color === board[selectedSquare.row][selectedSquare.col]?.color;
-
       let color = isLight ? '#f0d9b5' : '#b58863';
       if (isSelected) color = '#7fb069';
       if (isValidMove) {
-        if (isHealTarget) {
-          color = '#40e0d0'; // Turquoise for heal targets
+        if (activeAbility) {
+          color = '#40e0d0'; // Turquoise for ability targets
         } else {
           color = '#90ee90'; // Light green for normal moves
         }
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+import { useChessGame } from "../lib/stores/useChessGame";
+import { timeLeft } from "@shared/game/gameCore";
+import { formatClock } from "@shared/game/timeControls";
+
+// Both players' clocks, ticking while one of them runs. Nothing shows in
+// untimed games.
+export default function ChessClocks() {
+  const { timeControl, clocks, runningClock, clockRunningSince, gamePhase } = useChessGame();
+  const [now, setNow] = useState(Date.now());
+  const isRunning = runningClock !== null && clockRunningSince !== null;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  if (!timeControl || !clocks) return null;
+
+  const clockState = { timeControl, clocks, runningClock, clockRunningSince };
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-2 gap-2">
+        {(['white', 'black'] as const).map(color => {
+          const left = timeLeft(clockState, color, isRunning ? Math.max(now, clockRunningSince!) : now);
+          const isActive = isRunning && runningClock === color;
+          return (
+            <div
+              key={color}
+              className={`rounded p-2 text-center ${isActive ? 'bg-yellow-900/60 border border-yellow-500' : 'bg-gray-800 border border-gray-700'}`}
+            >
+              <div className="text-xs text-gray-400">{color === 'white' ? '♔ White' : '♚ Black'}</div>
+              <div className={`font-mono text-lg ${left < 10_000 ? 'text-red-400' : 'text-white'}`}>
+                {formatClock(left)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {gamePhase === 'battle' && (
+        <div className="text-xs text-gray-400 text-center">⏸ Clocks stop while the battle is shown</div>
+      )}
+    </div>
+  );
+}
@@ -4,17 +4,21 @@ import ChessBoard from "./ChessBoard";
 import GameUI from "./GameUI";
 import BattleModal from "./BattleModal";
 import LevelUpModal from "./LevelUpModal";
+import PromotionModal from "./PromotionModal";
 import { useChessGame } from "../lib/stores/useChessGame";
 
 export default function ChessGame() {
   const gameRef = useRef<any>();
-  const { currentPlayer, gamePhase, updateAI } = useChessGame();
+  const { gamePhase, updateAI, tickClock } = useChessGame();
 
-  // Game loop for AI updates
+  // Game loop for AI updates (updateAI works out whose turn it is) and flag falls
   useFrame((state, delta) => {
-    if (currentPlayer === 'black' && gamePhase === 'playing') {
+    if (gamePhase === 'playing' || gamePhase === 'battle') {
       updateAI(delta);
     }
+    if (gamePhase === 'playing' || gamePhase === 'promotion') {
+      tickClock();
+    }
   });
 
   return (
@@ -23,6 +27,7 @@ export default function ChessGame() {
       <GameUI />
       <BattleModal />
       <LevelUpModal />
+      <PromotionModal />
     </group>
   );
 }
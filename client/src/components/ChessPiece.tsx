@@ -1,9 +1,15 @@
 import { useRef } from "react";
+import { useShallow } from "zustand/react/shallow";
 import { useFrame } from "@react-three/fiber";
 import { Text, useGLTF } from "@react-three/drei";
 import * as THREE from "three";
-import { ChessPiece as PieceType, Position } from "../lib/stores/useChessGame";
-import { getPieceStats, getEffectiveStats, getMaxHealth, xpToNext, getPieceAbilities } from "../lib/chess/pieceData";
+import { ChessPiece as PieceType, Position } from "@shared/game/types";
+import { getEffectiveStats, getMaxHealth, xpToNext, getPieceAbilities } from "@shared/game/pieceData";
+import { getPieceDefinition } from "@shared/game/pieceDefinitions";
+import { calculateBattleOdds } from "@shared/game/battleSystem";
+import { getEnPassantVictim } from "@shared/game/chessLogic";
+import { abilityUnavailableReason } from "@shared/game/abilities";
+import { describeStatus } from "@shared/game/statusEffects";
 import { useChessGame } from "../lib/stores/useChessGame";
 
 interface ChessPieceProps {
@@ -17,16 +23,61 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
   const groupRef = useRef<THREE.Group>(null);
   const effectiveStats = getEffectiveStats(piece);
   const maxHealth = getMaxHealth(piece);
-  const { handleSquareClick, selectedSquare, currentPlayer, isHealMode, toggleHealMode, hoveredSquare, setHoveredSquare } = useChessGame();
+  const {
+    board,
+    validMoves,
+    enPassantTarget,
+    combatRules,
+    handleSquareClick,
+    selectedSquare,
+    currentPlayer,
+    gamePhase,
+    activeAbility,
+    selectAbility,
+    hoveredSquare,
+    setHoveredSquare
+  } = useChessGame(useShallow(state => ({
+    board: state.board,
+    validMoves: state.validMoves,
+    enPassantTarget: state.enPassantTarget,
+    combatRules: state.combatRules,
+    handleSquareClick: state.handleSquareClick,
+    selectedSquare: state.selectedSquare,
+    currentPlayer: state.currentPlayer,
+    gamePhase: state.gamePhase,
+    activeAbility: state.activeAbility,
+    selectAbility: state.selectAbility,
+    hoveredSquare: state.hoveredSquare,
+    setHoveredSquare: state.setHoveredSquare
+  })));
 
   const isSelected = selectedSquare && selectedSquare.row === row && selectedSquare.col === col;
+  const isHovered = !!hoveredSquare && hoveredSquare.row === row && hoveredSquare.col === col;
   const isCurrentPlayerPiece = piece.color === currentPlayer;
-  const abilities = getPieceAbilities(piece.type);
-  const canHeal = piece.type === 'bishop' && abilities.some(ability => ability.name === 'Heal');
 
-  const handleHealToggle = (e: any) => {
+  // Preview the battle when this piece is a capture target of the selected piece
+  // (including a pawn that can be taken en passant)
+  const attacker = selectedSquare ? board[selectedSquare.row][selectedSquare.col] : null;
+  const isCaptureTarget = !!selectedSquare && !!attacker && !isCurrentPlayerPiece && !activeAbility &&
+    validMoves.some(move => {
+      if (move.row === row && move.col === col) return true;
+      const victim = getEnPassantVictim(board, selectedSquare, move, enPassantTarget);
+      return !!victim && victim.row === row && victim.col === col;
+    });
+  const battleOdds = isHovered && isCaptureTarget && attacker ? calculateBattleOdds(attacker, piece, combatRules) : null;
+  const formatPercent = (chance: number) => `${Math.round(chance * 100)}%`;
+  // The piece's own abilities, usable on its owner's turn. Only the hover
+  // overlay shows them, so they're only checked while it's open.
+  const abilities = isHovered ? getPieceAbilities(piece.type).map(ability => ({
+    ...ability,
+    unavailable: abilityUnavailableReason(board, { row, col }, ability.id),
+    isActive: !!isSelected && activeAbility === ability.id
+  })) : [];
+  const canUseAbilities = isCurrentPlayerPiece && gamePhase === 'playing';
+
+  const handleAbilityToggle = (e: any, abilityId: string, isActive: boolean) => {
     e.stopPropagation();
-    toggleHealMode();
+    selectAbility({ row, col }, isActive ? null : abilityId);
   };
 
   // Hover and selection animation
@@ -60,19 +111,11 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
 
   // Get piece model and collider
   const getPieceModel = () => {
-    const modelPath = `/models/${piece.type}.glb`;
-    const { scene } = useGLTF(modelPath);
+    const { path, scale, offsetY } = getPieceDefinition(piece.type).model;
+    const { scene } = useGLTF(path);
 
     // Clone the scene to avoid sharing materials between instances
     const clonedScene = scene.clone();
-
-    // Scale the model appropriately
-    let scale = 2.0; // Default scale for most pieces
-    let yOffset = 0;
-    if (piece.type === "knight") {
-      scale = 1.5; // 25% smaller
-      yOffset = (1.6 * scale) / 2 - (1.6 / 2); // Adjust for reduced height
-    }
     clonedScene.scale.set(scale, scale, scale);
 
     // Apply piece color to all materials and disable raycasting on child meshes
@@ -90,9 +133,9 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
       }
     });
 
-    // Wrap in a group to apply yOffset only for knights
+    // Wrap in a group to lift models that sit low at their scale
     return (
-      <group position={[0, yOffset, 0]}>
+      <group position={[0, offsetY, 0]}>
         <primitive object={clonedScene} />
       </group>
     );
@@ -100,17 +143,7 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
 
   // Create invisible collider for stable hover detection
   const getCollider = () => {
-    // Different collider sizes based on piece type
-    const colliderSizes = {
-      pawn: [0.8, 1.2, 0.8],
-      rook: [1.0, 1.4, 1.0],
-      knight: [1.0, 1.6, 1.0],
-      bishop: [0.9, 1.8, 0.9],
-      queen: [1.1, 1.9, 1.1],
-      king: [1.2, 2.0, 1.2]
-    };
-
-    const size = colliderSizes[piece.type] || [1.0, 1.5, 1.0];
+    const size = getPieceDefinition(piece.type).model.collider;
 
     return (
       <mesh
@@ -119,7 +152,7 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
         onPointerLeave={() => setHoveredSquare(null)}
         onClick={handleClick}
       >
-        <boxGeometry args={size as [number, number, number]} />
+        <boxGeometry args={size} />
         <meshBasicMaterial
           transparent
           opacity={0}
@@ -139,7 +172,7 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
       </group>
 
       {/* Stats display when hovered */}
-      {hoveredSquare && hoveredSquare.row === row && hoveredSquare.col === col && (
+      {isHovered && (
         <group
           position={[0, 2.5, 0]} // Move overlay above the piece
           rotation={[-Math.PI / 4, 0, 0]}
@@ -148,6 +181,61 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
             <planeGeometry args={[2, 1.4]} />
             <meshStandardMaterial color="#000000" transparent opacity={0.8} depthTest={false} />
           </mesh>
+          {battleOdds && (
+            <group position={[0, 1.05, 0]}>
+              <mesh raycast={() => null} renderOrder={999}>
+                <planeGeometry args={[2, 0.6]} />
+                <meshStandardMaterial color="#300000" transparent opacity={0.85} depthTest={false} />
+              </mesh>
+              <Text
+                position={[0, 0.17, 0.01]}
+                fontSize={0.11}
+                color="#ff8080"
+                anchorX="center"
+                anchorY="middle"
+                raycast={() => null}
+                renderOrder={1000}
+              >
+                {`${attacker!.type.toUpperCase()} ATTACKS`}
+              </Text>
+              <Text
+                position={[0, 0, 0.01]}
+                fontSize={0.1}
+                color="#ffffff"
+                anchorX="center"
+                anchorY="middle"
+                raycast={() => null}
+                renderOrder={1000}
+              >
+                {`Capture ${formatPercent(battleOdds.attackerWins)} | Both live ${formatPercent(battleOdds.bothSurvive)} | Repelled ${formatPercent(battleOdds.defenderWins)}`}
+              </Text>
+              <Text
+                position={[0, -0.17, 0.01]}
+                fontSize={0.1}
+                color="#ffcc80"
+                anchorX="center"
+                anchorY="middle"
+                raycast={() => null}
+                renderOrder={1000}
+              >
+                {`Avg damage ${battleOdds.expectedDamage.toFixed(1)} | Avg counter ${battleOdds.expectedCounterDamage.toFixed(1)}`}
+              </Text>
+            </group>
+          )}
+          {piece.statuses && (
+            <Text
+              position={[0, 0.45, 0.01]}
+              fontSize={0.09}
+              color="#ffb0ff"
+              anchorX="center"
+              anchorY="middle"
+              maxWidth={1.9}
+              raycast={() => null}
+              renderOrder={1000}
+            >
+              {piece.statuses.map(describeStatus).join('  ')}
+            </Text>
+          )}
           <Text
             position={[0, 0.2, 0.01]}
             fontSize={0.15}
@@ -205,48 +293,54 @@ export default function ChessPiece({ piece, position, row, col }: ChessPieceProp
               {`${piece.unspentPoints} unspent points!`}
             </Text>
           )}
-          {canHeal && isCurrentPlayerPiece && (
-            <>
-              <Text
-                position={[0, -0.65, 0.01]}
-                fontSize={0.1}
-                color="#80ffff"
-                anchorX="center"
-                anchorY="middle"
-                raycast={() => null}
-                renderOrder={1000}
-              >
-                {`[H] ${isHealMode ? 'HEAL MODE' : 'Heal ability available'}`}
-              </Text>
-              <mesh
-                position={[0, -0.8, 0.01]}
-                onClick={handleHealToggle}
-                onPointerEnter={(e) => { e.stopPropagation(); setHoveredSquare({ row, col }); }}
-                onPointerLeave={(e) => { e.stopPropagation(); setHoveredSquare(null); }}
-              >
-                <planeGeometry args={[1, 0.2]} />
-                <meshStandardMaterial
-                  color={isHealMode ? "#00ff00" : "#0080ff"}
-                  transparent
-                  opacity={0.7}
-                />
-              </mesh>
-              <Text
-                position={[0, -0.8, 0.02]}
-                fontSize={0.08}
-                color="#ffffff"
-                anchorX="center"
-                anchorY="middle"
-                onClick={handleHealToggle}
-                onPointerEnter={(e) => { e.stopPropagation(); setHoveredSquare({ row, col }); }}
-                onPointerLeave={(e) => { e.stopPropagation(); setHoveredSquare(null); }}
-                raycast={() => null}
-                renderOrder={1000}
-              >
-                {isHealMode ? 'EXIT HEAL' : 'HEAL MODE'}
-              </Text>
-            </>
-          )}
+          {/* Ability bar: one button per ability, greyed out while it can't be used */}
+          {abilities.map((ability, index) => {
+            const y = -0.7 - index * 0.3;
+            const isUsable = canUseAbilities && !ability.unavailable;
+            const keepHover = {
+              onPointerEnter: (e: any) => { e.stopPropagation(); setHoveredSquare({ row, col }); },
+              onPointerLeave: (e: any) => { e.stopPropagation(); setHoveredSquare(null); }
+            };
+            return (
+              <group key={ability.id}>
+                <mesh
+                  position={[0, y, 0.01]}
+                  onClick={(e) => isUsable && handleAbilityToggle(e, ability.id, ability.isActive)}
+                  {...keepHover}
+                >
+                  <planeGeometry args={[1.8, 0.26]} />
+                  <meshStandardMaterial
+                    color={ability.isActive ? "#00ff00" : isUsable ? "#0080ff" : "#404040"}
+                    transparent
+                    opacity={0.7}
+                  />
+                </mesh>
+                <Text
+                  position={[0, y + 0.05, 0.02]}
+                  fontSize={0.09}
+                  color="#ffffff"
+                  anchorX="center"
+                  anchorY="middle"
+                  raycast={() => null}
+                  renderOrder={1000}
+                >
+                  {ability.isActive ? `Cancel ${ability.name}` : ability.name}
+                </Text>
+                <Text
+                  position={[0, y - 0.07, 0.02]}
+                  fontSize={0.06}
+                  color={ability.unavailable ? "#c0c0c0" : "#80ffff"}
+                  anchorX="center"
+                  anchorY="middle"
+                  maxWidth={1.7}
+                  raycast={() => null}
+                  renderOrder={1000}
+                >
+                  {ability.unavailable ?? (ability.isActive ? 'Pick a highlighted target' : ability.description)}
+                </Text>
+              </group>
+            );
+          })}
         </group>
       )}
     </group>
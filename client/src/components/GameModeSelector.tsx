@@ -1,26 +1,167 @@
 import { Html } from "@react-three/drei";
-import { useChessGame } from "../lib/stores/useChessGame";
+import { useChessGame, AIDifficulty } from "../lib/stores/useChessGame";
+import { useAuth } from "../lib/stores/useAuth";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { loadOnlineSession } from "../lib/chess/onlineClient";
+import { TIME_CONTROL_PRESETS, TimeControl } from "@shared/game/timeControls";
+import { COMBAT_MODE_OPTIONS, COMBAT_RULE_OPTIONS, CombatMode, CombatRules, rollsDice } from "@shared/game/combatRules";
+import SavedGames from "./SavedGames";
+import LeaderboardPanel from "./LeaderboardPanel";
 import { useState } from "react";
 
+const DIFFICULTY_OPTIONS: { value: AIDifficulty; label: string }[] = [
+  { value: 'easy', label: '🟢 Easy - Random moves' },
+  { value: 'medium', label: '🟡 Medium - Basic strategy' },
+  { value: 'hard', label: '🔴 Hard - Advanced tactics' },
+  { value: 'expert', label: '🟣 Expert - Deep search, weighs battle odds' }
+];
+
+function DifficultySelect({ value, onChange }: { value: AIDifficulty; onChange: (value: AIDifficulty) => void }) {
+  return (
+    <Select value={value} onValueChange={(value: AIDifficulty) => onChange(value)}>
+      <SelectTrigger className="w-full bg-gray-800 border-gray-600">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {DIFFICULTY_OPTIONS.map(option => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TimeControlSelect({ value, onChange }: { value: TimeControl | null; onChange: (value: TimeControl | null) => void }) {
+  const selected = TIME_CONTROL_PRESETS.find(preset =>
+    preset.timeControl?.initialMs === value?.initialMs && preset.timeControl?.incrementMs === value?.incrementMs
+  );
+  return (
+    <Select
+      value={selected?.id ?? 'untimed'}
+      onValueChange={(id) => onChange(TIME_CONTROL_PRESETS.find(preset => preset.id === id)?.timeControl ?? null)}
+    >
+      <SelectTrigger className="w-full bg-gray-800 border-gray-600">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TIME_CONTROL_PRESETS.map(preset => (
+          <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// The mode, described, and the switches for the modes that roll dice
+function CombatRulesPicker({ value, onChange }: { value: CombatRules; onChange: (value: CombatRules) => void }) {
+  const selected = COMBAT_MODE_OPTIONS.find(option => option.mode === value.mode);
+  return (
+    <div className="space-y-2">
+      <Select value={value.mode} onValueChange={(mode: CombatMode) => onChange({ ...value, mode })}>
+        <SelectTrigger className="w-full bg-gray-800 border-gray-600">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {COMBAT_MODE_OPTIONS.map(option => (
+            <SelectItem key={option.mode} value={option.mode}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="text-xs text-gray-400">{selected?.description}</div>
+      {rollsDice(value) && COMBAT_RULE_OPTIONS.map(option => (
+        <label key={option.id} className="flex items-start gap-3 cursor-pointer">
+          <Switch
+            checked={value[option.rule]}
+            onCheckedChange={(checked) => onChange({ ...value, [option.rule]: checked })}
+            className="mt-0.5"
+          />
+          <span>
+            <span className="text-sm text-gray-200">{option.label}</span>
+            <span className="block text-xs text-gray-400">{option.description}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+type Side = 'white' | 'black' | 'random';
+
+function SideSelect({ value, onChange }: { value: Side; onChange: (value: Side) => void }) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {(['white', 'black', 'random'] as const).map(side => (
+        <Button
+          key={side}
+          onClick={() => onChange(side)}
+          variant="outline"
+          className={`border-gray-600 ${value === side ? 'bg-gray-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+        >
+          {side === 'white' ? '♔ White' : side === 'black' ? '♚ Black' : '🎲 Random'}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
 export default function GameModeSelector() {
-  const { setGameMode, setAIDifficulty } = useChessGame();
-  const [selectedDifficulty, setSelectedDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium');
+  const {
+    setGameMode,
+    setAIDifficulty,
+    setHumanColor,
+    timeControl,
+    setTimeControl,
+    combatRules,
+    setCombatRules,
+    online,
+    onlineError,
+    hostOnlineGame,
+    joinOnlineGame,
+    resumeOnlineGame
+  } = useChessGame();
+  const { user, logout } = useAuth();
+  const [selectedDifficulty, setSelectedDifficulty] = useState<AIDifficulty>('medium');
+  const [selectedSide, setSelectedSide] = useState<Side>('white');
+  const [whiteDifficulty, setWhiteDifficulty] = useState<AIDifficulty>('medium');
+  const [blackDifficulty, setBlackDifficulty] = useState<AIDifficulty>('medium');
+  const [hostSide, setHostSide] = useState<Side>('random');
+  const [joinCode, setJoinCode] = useState('');
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  // A seat from an earlier visit that the server may still be keeping
+  const savedSession = loadOnlineSession();
+  // The menu stays up while we wait to be seated
+  const isConnecting = !!online;
 
   const handlePvP = () => {
+    setHumanColor('white');
     setGameMode('pvp');
   };
 
   const handlePvC = () => {
+    const side = selectedSide === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : selectedSide;
+    setHumanColor(side);
     setAIDifficulty(selectedDifficulty);
     setGameMode('pvc');
   };
 
+  const handleAIvsAI = () => {
+    setHumanColor('white');
+    setAIDifficulty(whiteDifficulty, 'white');
+    setAIDifficulty(blackDifficulty, 'black');
+    setGameMode('ava');
+  };
+
+  if (showLeaderboard) {
+    return <LeaderboardPanel onClose={() => setShowLeaderboard(false)} />;
+  }
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
-      <Card className="w-96 bg-gray-900 text-white border-gray-600">
+      <Card className="w-96 max-h-[95vh] overflow-y-auto bg-gray-900 text-white border-gray-600">
         <CardHeader>
           <CardTitle className="text-center text-3xl text-yellow-400">
             ♛ Chess RPG Battle ♛
@@ -30,6 +171,40 @@ export default function GameModeSelector() {
           <div className="text-center text-gray-300">
             Choose your game mode to begin the battle!
           </div>
+          <div className="flex items-center justify-between text-sm text-gray-400">
+            <span>Signed in as <span className="text-yellow-400">{user?.username}</span></span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowLeaderboard(true)}
+              className="border-gray-600 hover:bg-gray-700"
+            >
+              🏆 Leaderboard
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={logout}
+              disabled={isConnecting}
+              className="border-gray-600 hover:bg-gray-700"
+            >
+              Log Out
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm text-gray-300">Time control:</div>
+            <TimeControlSelect value={timeControl} onChange={setTimeControl} />
+            <div className="text-xs text-gray-400">
+              Clocks start after White's first move and stop while a battle is shown.
+              Points waiting to be spent run their owner's clock.
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm text-gray-300">Combat rules:</div>
+            <CombatRulesPicker value={combatRules} onChange={setCombatRules} />
+          </div>
 
           {/* Game Mode Buttons */}
           <div className="space-y-4">
@@ -42,16 +217,10 @@ export default function GameModeSelector() {
 
             <div className="space-y-3">
               <div className="text-sm text-gray-300">Select AI Difficulty:</div>
-              <Select value={selectedDifficulty} onValueChange={(value: 'easy' | 'medium' | 'hard') => setSelectedDifficulty(value)}>
-                <SelectTrigger className="w-full bg-gray-800 border-gray-600">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="easy">🟢 Easy - Random moves</SelectItem>
-                  <SelectItem value="medium">🟡 Medium - Basic strategy</SelectItem>
-                  <SelectItem value="hard">🔴 Hard - Advanced tactics</SelectItem>
-                </SelectContent>
-              </Select>
+              <DifficultySelect value={selectedDifficulty} onChange={setSelectedDifficulty} />
+
+              <div className="text-sm text-gray-300">Play as:</div>
+              <SideSelect value={selectedSide} onChange={setSelectedSide} />
               
               <Button 
                 onClick={handlePvC}
@@ -60,6 +229,67 @@ export default function GameModeSelector() {
                 🤖 Player vs Computer
               </Button>
             </div>
+
+            <div className="space-y-3 border-t border-gray-600 pt-4">
+              <div className="text-sm text-gray-300">White AI:</div>
+              <DifficultySelect value={whiteDifficulty} onChange={setWhiteDifficulty} />
+              <div className="text-sm text-gray-300">Black AI:</div>
+              <DifficultySelect value={blackDifficulty} onChange={setBlackDifficulty} />
+
+              <Button 
+                onClick={handleAIvsAI}
+                className="w-full bg-purple-600 hover:bg-purple-700 py-4 text-lg"
+              >
+                🍿 Watch AI vs AI
+              </Button>
+            </div>
+
+            <div className="space-y-3 border-t border-gray-600 pt-4">
+              <div className="text-sm text-gray-300">Host online as:</div>
+              <SideSelect value={hostSide} onChange={setHostSide} />
+              <Button
+                onClick={() => hostOnlineGame(hostSide)}
+                disabled={isConnecting}
+                className="w-full bg-green-600 hover:bg-green-700 py-4 text-lg"
+              >
+                🌐 Host Online Game
+              </Button>
+
+              <div className="flex gap-2">
+                <Input
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                  placeholder="Invite code"
+                  className="bg-gray-800 border-gray-600 font-mono"
+                />
+                <Button
+                  onClick={() => joinOnlineGame(joinCode)}
+                  disabled={!joinCode.trim() || isConnecting}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  Join
+                </Button>
+              </div>
+
+              {savedSession && (
+                <Button
+                  onClick={resumeOnlineGame}
+                  disabled={isConnecting}
+                  variant="outline"
+                  className="w-full border-gray-600 hover:bg-gray-700"
+                >
+                  ↩ Resume game {savedSession.code}
+                </Button>
+              )}
+              {isConnecting && (
+                <div className="text-sm text-gray-400 animate-pulse">Connecting to the game server...</div>
+              )}
+              {onlineError && (
+                <div className="text-sm text-red-400">{onlineError}</div>
+              )}
+            </div>
+
+            <SavedGames />
           </div>
 
           {/* Game Features */}
@@ -68,7 +298,7 @@ export default function GameModeSelector() {
             <div>• Traditional chess rules with RPG twist</div>
             <div>• Battle system when pieces capture</div>
             <div>• Health, Attack, and Defense stats</div>
-            <div>• Dice-based combat resolution</div>
+            <div>• Classic, dice, deterministic or attrition combat</div>
             <div>• Beautiful 3D chess board</div>
           </div>
         </CardContent>
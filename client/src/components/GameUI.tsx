@@ -1,18 +1,130 @@
 import { Html } from "@react-three/drei";
-import { useChessGame } from "../lib/stores/useChessGame";
+import { useChessGame, isAIControlled } from "../lib/stores/useChessGame";
+import { useAuth } from "../lib/stores/useAuth";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { DrawReason } from "@shared/game/drawRules";
+import { serializePosition } from "@shared/game/fen";
+import { describeMove, exportPGN } from "@shared/game/pgn";
+import ChessClocks from "./ChessClocks";
+import { useState } from "react";
+
+const DRAW_REASON_LABELS: Record<DrawReason, string> = {
+  stalemate: 'Stalemate',
+  threefold_repetition: 'Threefold repetition',
+  fifty_move_rule: 'Fifty-move rule',
+  insufficient_material: 'Insufficient material'
+};
 
 export default function GameUI() {
   const { 
+    board,
     currentPlayer, 
+    enPassantTarget,
+    halfmoveClock,
+    fullmoveNumber,
+    loadPosition,
+    loadPGN,
+    startPosition,
+    seed,
+    combatRules,
+    aiThinking,
+    aiAnalysis,
     gamePhase, 
     gameMode, 
+    humanColor,
+    aiDifficulties,
+    aiPaused,
+    setAIPaused,
+    stepAI,
+    online,
+    onlineError,
     winner, 
+    winReason,
+    drawReason,
+    resign,
+    undoStack,
+    redoStack,
+    undo,
+    redo,
+    requestTakeback,
+    answerTakeback,
     restartGame, 
     backToMenu,
     moveHistory 
   } = useChessGame();
+  const { user } = useAuth();
+  const [positionText, setPositionText] = useState('');
+  const [positionMessage, setPositionMessage] = useState<string | null>(null);
+  const [pgnText, setPgnText] = useState('');
+  const [pgnMessage, setPgnMessage] = useState<string | null>(null);
+
+  const handleCopyPosition = () => {
+    const text = serializePosition({ board, currentPlayer, enPassantTarget, halfmoveClock, fullmoveNumber });
+    navigator.clipboard.writeText(text)
+      .then(() => setPositionMessage('Position copied to clipboard'))
+      .catch(() => {
+        // Clipboard access can be blocked; leave the text where it can be copied by hand
+        setPositionText(text);
+        setPositionMessage('Copy the position from the box below');
+      });
+  };
+
+  const handleLoadPosition = () => {
+    try {
+      loadPosition(positionText);
+      setPositionMessage('Position loaded');
+    } catch (error) {
+      setPositionMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const isOnline = gameMode === 'online';
+
+  const playerName = (color: 'white' | 'black') =>
+    isOnline
+      ? (color === online?.color ? 'You' : 'Opponent')
+      : isAIControlled(gameMode, humanColor, color)
+        ? `Computer (${aiDifficulties[color]})`
+        : gameMode === 'pvc' && user ? user.username : 'Player';
+
+  const modeLabel = gameMode === 'pvp'
+    ? 'Player vs Player'
+    : gameMode === 'ava'
+      ? `AI vs AI (${aiDifficulties.white} vs ${aiDifficulties.black})`
+      : isOnline
+        ? `Online (you play ${online?.color})`
+        : `Player (${humanColor}) vs Computer`;
+
+  const handleCopyPGN = () => {
+    const result = winner === 'white' ? '1-0' : winner === 'black' ? '0-1' : drawReason ? '1/2-1/2' : '*';
+    const text = exportPGN({
+      startPosition,
+      moveHistory,
+      result,
+      white: playerName('white'),
+      black: playerName('black'),
+      seed: seed ?? undefined,
+      combatRules
+    });
+    navigator.clipboard.writeText(text)
+      .then(() => setPgnMessage('PGN copied to clipboard'))
+      .catch(() => {
+        setPgnText(text);
+        setPgnMessage('Copy the PGN from the box below');
+      });
+  };
+
+  const handleLoadPGN = () => {
+    try {
+      loadPGN(pgnText);
+      setPgnMessage('Game loaded');
+    } catch (error) {
+      setPgnMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
 
   return (
     <Html position={[6, 8, 0]} center>
@@ -28,28 +140,243 @@ export default function GameUI() {
             <div className="text-lg font-semibold">
               {gamePhase === 'playing' && `${currentPlayer === 'white' ? 'White' : 'Black'}'s Turn`}
               {gamePhase === 'battle' && 'Battle in Progress!'}
+              {gamePhase === 'promotion' && 'Choose a Promotion!'}
               {gamePhase === 'ended' && winner && `${winner === 'white' ? 'White' : 'Black'} Wins!`}
+              {gamePhase === 'ended' && drawReason && 'Draw!'}
             </div>
+            {aiThinking && (
+              <div className="text-sm text-purple-300 mt-1 animate-pulse">
+                🤖 Computer is thinking...
+                {aiAnalysis && ` depth ${aiAnalysis.depth}, ${aiAnalysis.nodes} positions`}
+              </div>
+            )}
+            {!aiThinking && aiAnalysis?.elapsedMs !== undefined && (
+              <div className="text-xs text-gray-400 mt-1">
+                Last search: depth {aiAnalysis.depth}, {aiAnalysis.nodes} positions in {(aiAnalysis.elapsedMs / 1000).toFixed(1)}s
+              </div>
+            )}
+            {gamePhase === 'ended' && winReason === 'resignation' && (
+              <div className="text-sm text-yellow-400 mt-1">
+                by resignation
+              </div>
+            )}
+            {gamePhase === 'ended' && winReason === 'timeout' && (
+              <div className="text-sm text-yellow-400 mt-1">
+                on time
+              </div>
+            )}
+            {gamePhase === 'ended' && drawReason && (
+              <div className="text-sm text-yellow-400 mt-1">
+                {DRAW_REASON_LABELS[drawReason]}
+              </div>
+            )}
             <div className="text-sm text-gray-300 mt-1">
-              Mode: {gameMode === 'pvp' ? 'Player vs Player' : 'Player vs Computer'}
+              Mode: {modeLabel}
             </div>
+            {online && (
+              <div className="text-xs mt-1 space-y-1">
+                <div className="text-gray-300">
+                  Invite code: <span className="font-mono text-yellow-400">{online.code}</span>
+                </div>
+                <div className={online.status === 'reconnecting' ? 'text-red-400' : 'text-gray-400'}>
+                  {online.status === 'reconnecting'
+                    ? '⚠️ Connection lost, reconnecting...'
+                    : !online.opponentSeated ? '⏳ Waiting for opponent to join...'
+                    : online.opponentConnected ? '🟢 Opponent connected' : '⏳ Waiting for opponent...'}
+                </div>
+              </div>
+            )}
+            {onlineError && (
+              <div className="text-xs text-red-400 mt-1">{onlineError}</div>
+            )}
+            {seed !== null && (
+              <div className="text-xs text-gray-400 mt-1">
+                Seed: {seed}
+              </div>
+            )}
           </div>
 
+          <ChessClocks />
+
+          {/* AI vs AI Playback */}
+          {gameMode === 'ava' && gamePhase !== 'ended' && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => setAIPaused(!aiPaused)}
+                className="flex-1 bg-purple-600 hover:bg-purple-700"
+              >
+                {aiPaused ? '▶ Play' : '⏸ Pause'}
+              </Button>
+              <Button
+                size="sm"
+                onClick={stepAI}
+                disabled={!aiPaused}
+                variant="outline"
+                className="flex-1 border-gray-600 hover:bg-gray-700"
+              >
+                ⏭ Step
+              </Button>
+            </div>
+          )}
+
           {/* Game Controls */}
           <div className="flex flex-col gap-2">
+            {(gameMode === 'pvp' || gameMode === 'pvc') && gamePhase !== 'ended' && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={undo}
+                  disabled={undoStack.length === 0}
+                  variant="outline"
+                  className="flex-1 border-gray-600 hover:bg-gray-700"
+                >
+                  ↶ Undo
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={redo}
+                  disabled={redoStack.length === 0}
+                  variant="outline"
+                  className="flex-1 border-gray-600 hover:bg-gray-700"
+                >
+                  ↷ Redo
+                </Button>
+              </div>
+            )}
+            {isOnline && online && gamePhase !== 'ended' && (
+              online.takebackRequestedBy && online.takebackRequestedBy !== online.color ? (
+                <div className="space-y-1">
+                  <div className="text-xs text-yellow-400 text-center">
+                    Your opponent asks to take back their last move
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => answerTakeback(true)}
+                      className="flex-1 bg-green-600 hover:bg-green-700"
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => answerTakeback(false)}
+                      variant="outline"
+                      className="flex-1 border-gray-600 hover:bg-gray-700"
+                    >
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={requestTakeback}
+                  disabled={online.takebackRequestedBy === online.color}
+                  variant="outline"
+                  className="w-full border-gray-600 hover:bg-gray-700"
+                >
+                  {online.takebackRequestedBy === online.color ? 'Waiting for your opponent...' : '↶ Request Takeback'}
+                </Button>
+              )
+            )}
+            {gameMode !== 'ava' && gamePhase !== 'ended' && (
+              <Button
+                onClick={resign}
+                variant="destructive"
+                className="w-full"
+              >
+                Resign
+              </Button>
+            )}
+            {!isOnline && (
+              <Button 
+                onClick={restartGame}
+                className="w-full bg-blue-600 hover:bg-blue-700"
+              >
+                Restart Game
+              </Button>
+            )}
             <Button 
-              onClick={restartGame}
-              className="w-full bg-blue-600 hover:bg-blue-700"
+              onClick={backToMenu}
+              variant="outline"
+              className="w-full border-gray-600 hover:bg-gray-700"
             >
-              Restart Game
+              {isOnline ? 'Leave Game' : 'Back to Menu'}
             </Button>
-            <Button 
-              onClick={backToMenu}
+          </div>
+
+          {/* Position Import/Export */}
+          <div className="space-y-2">
+            <div className="text-sm font-semibold">Position:</div>
+            {/* Only the server decides what's on an online board */}
+            {(!isOnline || positionText) && (
+              <div className="flex gap-2">
+                <Input
+                  value={positionText}
+                  onChange={(e) => setPositionText(e.target.value)}
+                  placeholder="Paste a FEN / RPG position"
+                  className="h-8 bg-gray-800 border-gray-600 text-xs"
+                />
+                {!isOnline && (
+                  <Button
+                    size="sm"
+                    onClick={handleLoadPosition}
+                    disabled={!positionText.trim()}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    Load
+                  </Button>
+                )}
+              </div>
+            )}
+            <Button
+              size="sm"
+              onClick={handleCopyPosition}
               variant="outline"
               className="w-full border-gray-600 hover:bg-gray-700"
             >
-              Back to Menu
+              Copy Position
             </Button>
+            {positionMessage && (
+              <div className="text-xs text-gray-300">{positionMessage}</div>
+            )}
+          </div>
+
+          {/* PGN Import/Export */}
+          <div className="space-y-2">
+            <div className="text-sm font-semibold">Game (PGN):</div>
+            {(!isOnline || pgnText) && (
+              <Textarea
+                value={pgnText}
+                onChange={(e) => setPgnText(e.target.value)}
+                placeholder="Paste a PGN with battle annotations"
+                className="min-h-16 bg-gray-800 border-gray-600 text-xs"
+              />
+            )}
+            <div className="flex gap-2">
+              {!isOnline && (
+                <Button
+                  size="sm"
+                  onClick={handleLoadPGN}
+                  disabled={!pgnText.trim()}
+                  className="flex-1 bg-green-600 hover:bg-green-700"
+                >
+                  Load PGN
+                </Button>
+              )}
+              <Button
+                size="sm"
+                onClick={handleCopyPGN}
+                variant="outline"
+                className="flex-1 border-gray-600 hover:bg-gray-700"
+              >
+                Copy PGN
+              </Button>
+            </div>
+            {pgnMessage && (
+              <div className="text-xs text-gray-300">{pgnMessage}</div>
+            )}
           </div>
 
           {/* Move History */}
@@ -57,9 +384,9 @@ export default function GameUI() {
             <div className="max-h-32 overflow-y-auto">
               <div className="text-sm font-semibold mb-2">Recent Moves:</div>
               <div className="space-y-1">
-                {moveHistory.slice(-5).map((move, index) => (
+                {moveHistory.slice(-5).map((record, index) => (
                   <div key={index} className="text-xs text-gray-300">
-                    {move}
+                    {describeMove(record)}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import type { LeaderboardPage } from "@shared/schema";
+import { useAuth } from "../lib/stores/useAuth";
+import { fetchLeaderboard } from "../lib/chess/gameRecords";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+const PAGE_SIZE = 10;
+const AI_LEVELS = ['easy', 'medium', 'hard', 'expert'] as const;
+
+export default function LeaderboardPanel({ onClose }: { onClose: () => void }) {
+  const { user } = useAuth();
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<LeaderboardPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLeaderboard(PAGE_SIZE, offset)
+      .then(setPage)
+      .catch(() => setError('The leaderboard is unavailable'));
+  }, [offset]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <Card className="w-[28rem] max-h-[95vh] overflow-y-auto bg-gray-900 text-white border-gray-600">
+        <CardHeader>
+          <CardTitle className="text-center text-3xl text-yellow-400">
+            🏆 Leaderboard
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-xs text-gray-400 text-center">
+            Elo ratings from online games, with unrated records against the computer
+          </div>
+
+          {page && page.entries.length === 0 && (
+            <div className="text-center text-gray-300">No rated games yet</div>
+          )}
+
+          <div className="space-y-2">
+            {page?.entries.map(entry => (
+              <div
+                key={entry.userId}
+                className={`rounded p-2 text-sm ${entry.userId === user?.id ? 'bg-yellow-900/40' : 'bg-gray-800'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="w-8 text-gray-400">#{entry.rank}</span>
+                  <span className="flex-1 truncate">{entry.username}</span>
+                  <span className="font-mono text-yellow-400">{entry.rating}</span>
+                  <span className="w-20 text-right text-xs text-gray-400">
+                    {entry.wins}-{entry.losses}-{entry.draws}
+                  </span>
+                </div>
+                {entry.aiRecords.length > 0 && (
+                  <div className="text-xs text-gray-400 mt-1 pl-10">
+                    vs AI: {AI_LEVELS
+                      .flatMap(level => entry.aiRecords.filter(record => record.difficulty === level))
+                      .map(record => `${record.difficulty} ${record.wins}-${record.losses}-${record.draws}`)
+                      .join(', ')}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {error && <div className="text-sm text-red-400">{error}</div>}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+              className="flex-1 border-gray-600 hover:bg-gray-700"
+            >
+              ← Previous
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={!page || offset + PAGE_SIZE >= page.total}
+              className="flex-1 border-gray-600 hover:bg-gray-700"
+            >
+              Next →
+            </Button>
+          </div>
+
+          <Button
+            onClick={onClose}
+            className="w-full bg-blue-600 hover:bg-blue-700"
+          >
+            Back to Menu
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
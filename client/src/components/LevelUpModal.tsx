@@ -1,6 +1,6 @@
 import { Html } from "@react-three/drei";
 import { useChessGame } from "../lib/stores/useChessGame";
-import { getEffectiveStats, getMaxHealth } from "../lib/chess/pieceData";
+import { getEffectiveStats, getMaxHealth } from "@shared/game/pieceData";
 import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { useState, useEffect } from "react";
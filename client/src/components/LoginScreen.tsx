@@ -0,0 +1,83 @@
+import { useState, type FormEvent } from "react";
+import { credentialsSchema } from "@shared/schema";
+import { useAuth } from "../lib/stores/useAuth";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+
+export default function LoginScreen() {
+  const { login, register, isSubmitting, error } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    // Check new accounts here too, so the rules show up before the round trip
+    if (mode === 'register') {
+      const parsed = credentialsSchema.safeParse({ username, password });
+      if (!parsed.success) {
+        setFormError(parsed.error.errors[0].message);
+        return;
+      }
+    }
+    setFormError(null);
+    (mode === 'login' ? login : register)(username, password);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <Card className="w-96 bg-gray-900 text-white border-gray-600">
+        <CardHeader>
+          <CardTitle className="text-center text-3xl text-yellow-400">
+            ♛ Chess RPG Battle ♛
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="text-center text-gray-300">
+              {mode === 'login' ? 'Log in to play' : 'Create an account'}
+            </div>
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="username"
+              className="bg-gray-800 border-gray-600"
+            />
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              className="bg-gray-800 border-gray-600"
+            />
+            {(formError || error) && (
+              <div className="text-sm text-red-400">{formError || error}</div>
+            )}
+            <Button
+              type="submit"
+              disabled={isSubmitting || !username.trim() || !password}
+              className="w-full bg-blue-600 hover:bg-blue-700 py-4 text-lg"
+            >
+              {mode === 'login' ? 'Log In' : 'Register'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setMode(mode === 'login' ? 'register' : 'login');
+                setFormError(null);
+              }}
+              className="w-full border-gray-600 hover:bg-gray-700"
+            >
+              {mode === 'login' ? 'New here? Register' : 'Have an account? Log in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Html } from "@react-three/drei";
+import { useChessGame } from "../lib/stores/useChessGame";
+import { PromotionPieceType } from "@shared/game/types";
+import { getEffectiveStats, getMaxHealth, promotePiece } from "@shared/game/pieceData";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+
+const PROMOTION_CHOICES: { type: PromotionPieceType; icon: string }[] = [
+  { type: 'queen', icon: '♛' },
+  { type: 'rook', icon: '♜' },
+  { type: 'bishop', icon: '♝' },
+  { type: 'knight', icon: '♞' }
+];
+
+export default function PromotionModal() {
+  const {
+    board,
+    gamePhase,
+    pendingPromotion,
+    activeLevelUpPieceId,
+    gameMode,
+    online,
+    promotePawn
+  } = useChessGame();
+
+  const pawn = pendingPromotion ? board[pendingPromotion.row][pendingPromotion.col] : null;
+
+  // Let the level-up allocation finish first; its mods carry over to the new piece
+  if (gamePhase !== 'promotion' || !pawn || activeLevelUpPieceId) {
+    return null;
+  }
+  // An online opponent makes their own choice
+  if (gameMode === 'online' && pawn.color !== online?.color) {
+    return null;
+  }
+
+  return (
+    <Html position={[0, 6, 5]} center>
+      <Card className="w-96 bg-black/95 text-white border-purple-600 shadow-2xl">
+        <CardHeader>
+          <CardTitle className="text-center text-2xl text-purple-400">
+            👑 PROMOTION! 👑
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Pawn Info */}
+          <div className="text-center border border-purple-500 p-3 rounded">
+            <div className="font-bold text-purple-400">PAWN ({pawn.color})</div>
+            <div className="text-lg">Level {pawn.level}</div>
+            <div className="text-sm text-gray-300">
+              Keeps its level, XP, attribute points and health percentage
+            </div>
+          </div>
+
+          {/* Promotion Choices */}
+          <div className="grid grid-cols-2 gap-2">
+            {PROMOTION_CHOICES.map(({ type, icon }) => {
+              const promoted = promotePiece(pawn, type);
+              const stats = getEffectiveStats(promoted);
+              return (
+                <Button
+                  key={type}
+                  onClick={() => promotePawn(type)}
+                  variant="outline"
+                  className="h-auto flex flex-col py-2 bg-gray-800 border-gray-600 hover:bg-gray-700"
+                >
+                  <span className="text-2xl">{icon}</span>
+                  <span className="font-bold">{type.toUpperCase()}</span>
+                  <span className="text-xs text-gray-300">
+                    HP {promoted.health}/{getMaxHealth(promoted)}
+                  </span>
+                  <span className="text-xs text-gray-300">
+                    ATK {stats.attack} | DEF {stats.defense}
+                  </span>
+                </Button>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </Html>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import type { GameSummary } from "@shared/schema";
+import { useChessGame } from "../lib/stores/useChessGame";
+import { listGameRecords } from "../lib/chess/gameRecords";
+import { Button } from "./ui/button";
+
+const END_REASON_LABELS: Record<string, string> = {
+  checkmate: 'checkmate',
+  resignation: 'resignation',
+  timeout: 'time',
+  stalemate: 'stalemate',
+  threefold_repetition: 'repetition',
+  fifty_move_rule: 'fifty-move rule',
+  insufficient_material: 'insufficient material'
+};
+
+function describeGame(game: GameSummary): string {
+  const name = (color: 'white' | 'black') => game.participants.find(p => p.color === color)?.name ?? '?';
+  return `${name('white')} vs ${name('black')}`;
+}
+
+function GameRow({ game, action, onOpen }: { game: GameSummary; action: string; onOpen: (id: number) => void }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <div className="flex-1 min-w-0">
+        <div className="truncate text-gray-200">{describeGame(game)}</div>
+        <div className="text-gray-400">
+          {game.result
+            ? `${game.result}${game.endReason ? ` by ${END_REASON_LABELS[game.endReason] ?? game.endReason}` : ''}`
+            : `Last played ${new Date(game.updatedAt).toLocaleString()}`}
+        </div>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onOpen(game.id)}
+        className="border-gray-600 hover:bg-gray-700"
+      >
+        {action}
+      </Button>
+    </div>
+  );
+}
+
+// Games kept on the server: unfinished local games to carry on, and recent results
+export default function SavedGames() {
+  const { openSavedGame } = useChessGame();
+  const [activeGames, setActiveGames] = useState<GameSummary[]>([]);
+  const [finishedGames, setFinishedGames] = useState<GameSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([listGameRecords('active'), listGameRecords('finished')])
+      .then(([active, finished]) => {
+        // Unfinished online games are carried on from the online section
+        setActiveGames(active.filter(game => game.mode !== 'online'));
+        setFinishedGames(finished);
+      })
+      .catch(() => setError('Saved games are unavailable'));
+  }, []);
+
+  const handleOpen = (id: number) => {
+    openSavedGame(id).catch(error => setError(error instanceof Error ? error.message : String(error)));
+  };
+
+  if (!error && activeGames.length === 0 && finishedGames.length === 0) return null;
+
+  return (
+    <div className="space-y-3 border-t border-gray-600 pt-4">
+      {activeGames.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm text-gray-300">Unfinished games:</div>
+          {activeGames.map(game => (
+            <GameRow key={game.id} game={game} action="↩ Resume" onOpen={handleOpen} />
+          ))}
+        </div>
+      )}
+      {finishedGames.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm text-gray-300">Recent results:</div>
+          {finishedGames.map(game => (
+            <GameRow key={game.id} game={game} action="View" onOpen={handleOpen} />
+          ))}
+        </div>
+      )}
+      {error && <div className="text-sm text-red-400">{error}</div>}
+    </div>
+  );
+}
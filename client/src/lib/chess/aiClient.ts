@@ -0,0 +1,92 @@
+import { makeAIMove } from "./chessAI";
+import { createSeededRandom } from "@shared/game/random";
+import { AIWorkerRequest, AIWorkerResponse, AIResultMessage, AIProgressMessage } from "./aiProtocol";
+
+// Main-thread side of the AI worker. Only one request is in flight at a time;
+// starting a new one or cancelling resolves the old one with null.
+
+export type AIMoveRequest = Omit<AIWorkerRequest, 'id'>;
+
+interface PendingRequest {
+  id: number;
+  resolve: (result: AIResultMessage | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AIProgressMessage) => void;
+}
+
+let worker: Worker | null = null;
+let pending: PendingRequest | null = null;
+let nextRequestId = 1;
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AIWorkerResponse>) => handleMessage(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      if (pending) {
+        handleMessage({ type: 'error', id: pending.id, message: event.message || 'AI worker crashed' });
+      }
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function handleMessage(message: AIWorkerResponse): void {
+  if (!pending || message.id !== pending.id) return;
+
+  if (message.type === 'progress') {
+    pending.onProgress?.(message);
+    return;
+  }
+
+  const { resolve, reject } = pending;
+  pending = null;
+  if (message.type === 'result') {
+    resolve(message);
+  } else {
+    reject(new Error(message.message));
+  }
+}
+
+export function requestAIMove(
+  request: AIMoveRequest,
+  onProgress?: (progress: AIProgressMessage) => void
+): Promise<AIResultMessage | null> {
+  cancelAIMove();
+  const id = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    pending = { id, resolve, reject, onProgress };
+
+    if (typeof Worker === 'undefined') {
+      // No workers (e.g. under Node): think on this thread, but still asynchronously
+      setTimeout(() => runInline({ ...request, id }), 0);
+      return;
+    }
+    getWorker().postMessage({ ...request, id });
+  });
+}
+
+export function cancelAIMove(): void {
+  if (!pending) return;
+  pending.resolve(null);
+  pending = null;
+
+  // A running search can't be interrupted, so the busy worker is thrown away
+  worker?.terminate();
+  worker = null;
+}
+
+function runInline(request: AIWorkerRequest): void {
+  if (!pending || pending.id !== request.id) return;
+
+  const startedAt = Date.now();
+  const random = createSeededRandom(request.randomState);
+  const move = makeAIMove(request.board, request.color, request.difficulty, request.enPassantTarget, request.combatRules, random.next, ({ depth, score, nodes }) => {
+    handleMessage({ type: 'progress', id: request.id, depth, score, nodes });
+  }, request.timeBudgetMs);
+  handleMessage({ type: 'result', id: request.id, move, randomState: random.getState(), elapsedMs: Date.now() - startedAt });
+}
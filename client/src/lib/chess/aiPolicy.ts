@@ -0,0 +1,59 @@
+import { ChessPiece } from "@shared/game/types";
+import type { AIDifficulty } from "../stores/useChessGame";
+import { RandomSource, randomIndex } from "@shared/game/random";
+
+// RPG decisions the computer makes for its own pieces outside of move choice
+
+export interface AttributePoints {
+  attack: number;
+  defense: number;
+  maxHealth: number;
+}
+
+const ATTRIBUTES: (keyof AttributePoints)[] = ['attack', 'defense', 'maxHealth'];
+
+// How each piece's points should be split over time
+const ROLE_WEIGHTS: Record<ChessPiece['type'], AttributePoints> = {
+  // Pawns mostly need to survive long enough to promote
+  pawn: { attack: 1, defense: 1, maxHealth: 2 },
+  knight: { attack: 3, defense: 1, maxHealth: 1 },
+  // The healer is worth more alive than hitting hard
+  bishop: { attack: 1, defense: 2, maxHealth: 2 },
+  rook: { attack: 2, defense: 2, maxHealth: 1 },
+  queen: { attack: 3, defense: 1, maxHealth: 1 },
+  king: { attack: 0, defense: 2, maxHealth: 2 }
+};
+
+// Spends all of a piece's unspent points. Easy scatters them at random, medium
+// pours them into the role's main attribute, and the stronger AIs keep each
+// piece's lifetime spending close to its role's split.
+export function chooseAttributeAllocation(
+  piece: ChessPiece,
+  difficulty: AIDifficulty,
+  random: RandomSource
+): AttributePoints {
+  const allocation: AttributePoints = { attack: 0, defense: 0, maxHealth: 0 };
+  const weights = ROLE_WEIGHTS[piece.type];
+
+  for (let point = 0; point < piece.unspentPoints; point++) {
+    if (difficulty === 'easy') {
+      allocation[ATTRIBUTES[randomIndex(random, ATTRIBUTES.length)]]++;
+    } else if (difficulty === 'medium') {
+      const primary = ATTRIBUTES.reduce((best, attribute) => weights[attribute] > weights[best] ? attribute : best);
+      allocation[primary]++;
+    } else {
+      allocation[mostUnderspent(piece, allocation, weights)]++;
+    }
+  }
+
+  return allocation;
+}
+
+function mostUnderspent(piece: ChessPiece, allocation: AttributePoints, weights: AttributePoints): keyof AttributePoints {
+  const totalWeight = weights.attack + weights.defense + weights.maxHealth;
+  const spent = (attribute: keyof AttributePoints) => piece.mods[attribute] + allocation[attribute];
+  const totalSpent = ATTRIBUTES.reduce((sum, attribute) => sum + spent(attribute), 0) + 1;
+  const shortfall = (attribute: keyof AttributePoints) => weights[attribute] / totalWeight * totalSpent - spent(attribute);
+
+  return ATTRIBUTES.reduce((best, attribute) => shortfall(attribute) > shortfall(best) ? attribute : best);
+}
@@ -0,0 +1,44 @@
+import { ChessPiece, Position } from "@shared/game/types";
+import type { AIDifficulty } from "../stores/useChessGame";
+import { AIMove } from "./chessAI";
+import { CombatRules } from "@shared/game/combatRules";
+
+// Messages between the main thread and the AI worker. Every request carries an
+// id, and the worker echoes it so stale replies can be told apart.
+
+export interface AIWorkerRequest {
+  id: number;
+  board: (ChessPiece | null)[][];
+  color: 'white' | 'black';
+  difficulty: AIDifficulty;
+  enPassantTarget: Position | null;
+  combatRules: CombatRules;
+  // State of the AI's random stream; the reply carries the advanced state
+  randomState: number;
+  // How long a searching AI may think; it picks its own limit when missing
+  timeBudgetMs?: number;
+}
+
+export interface AIProgressMessage {
+  type: 'progress';
+  id: number;
+  depth: number;
+  score: number;
+  nodes: number;
+}
+
+export interface AIResultMessage {
+  type: 'result';
+  id: number;
+  move: AIMove | null;
+  randomState: number;
+  elapsedMs: number;
+}
+
+export interface AIErrorMessage {
+  type: 'error';
+  id: number;
+  message: string;
+}
+
+export type AIWorkerResponse = AIProgressMessage | AIResultMessage | AIErrorMessage;
@@ -0,0 +1,30 @@
+import { makeAIMove } from "./chessAI";
+import { createSeededRandom } from "@shared/game/random";
+import { AIWorkerRequest, AIWorkerResponse } from "./aiProtocol";
+
+// Runs the AI off the main thread. A request runs to completion; the client
+// cancels by terminating the whole worker.
+
+const post = (message: AIWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AIWorkerRequest>) => {
+  const { id, board, color, difficulty, enPassantTarget, combatRules, randomState, timeBudgetMs } = event.data;
+  const startedAt = performance.now();
+
+  try {
+    const random = createSeededRandom(randomState);
+    const move = makeAIMove(board, color, difficulty, enPassantTarget, combatRules, random.next, ({ depth, score, nodes }) => {
+      post({ type: 'progress', id, depth, score, nodes });
+    }, timeBudgetMs);
+
+    post({
+      type: 'result',
+      id,
+      move,
+      randomState: random.getState(),
+      elapsedMs: Math.round(performance.now() - startedAt)
+    });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
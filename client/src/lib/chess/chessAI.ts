@@ -1,106 +1,209 @@
-import { ChessPiece, Position } from "../stores/useChessGame";
-import { getValidMoves, isInCheck } from "./chessLogic";
-import { getPieceStats } from "./pieceData";
+import { ChessPiece, Position, PromotionPieceType } from "@shared/game/types";
+import type { AIDifficulty } from "../stores/useChessGame";
+import { getValidMoves, getLegalMoves, getEnPassantVictim, isInCheck, applyMoveToBoard } from "@shared/game/chessLogic";
+import { promotePiece, getMaxHealth } from "@shared/game/pieceData";
+import { getAbilityUses, resolveAbility } from "@shared/game/abilities";
+import { getPieceDefinition } from "@shared/game/pieceDefinitions";
+import { getPendingStatusDamage, getStatusModifiers, isStunned } from "@shared/game/statusEffects";
+import { RandomSource, randomIndex } from "@shared/game/random";
+import { CombatRules } from "@shared/game/combatRules";
+import { BattleOutcome, BattleResult, getBattleOutcomeDistribution } from "@shared/game/battleSystem";
+import { findBestMove, SearchResult } from "./search";
 
 interface Move {
   from: Position;
   to: Position;
   score: number;
+  // The captured piece's value times the chance the capture succeeds
   captureValue?: number;
+  // How a capture's battle can go
+  outcomes?: BattleOutcome[];
+  // Square of the pawn taken en passant
+  enPassantVictim?: Position;
+  // Ability (by id) used on the piece on `to`, worth `abilityValue`
+  ability?: string;
+  abilityValue?: number;
 }
 
-export function makeAIMove(board: (ChessPiece | null)[][], difficulty: 'easy' | 'medium' | 'hard'): { from: Position; to: Position } | null {
-  const aiColor = 'black';
-  const possibleMoves = getAllPossibleMoves(board, aiColor);
+export interface AIMove {
+  from: Position;
+  to: Position;
+  // An ability (by id) used on the piece on `to` rather than a move
+  ability?: string;
+  // Search statistics, for difficulties that search
+  analysis?: Pick<SearchResult, 'depth' | 'score' | 'nodes'>;
+}
+
+// How long the expert search may think per move, unless the clock is shorter
+export const EXPERT_TIME_BUDGET_MS = 1500;
+
+export function makeAIMove(
+  board: (ChessPiece | null)[][],
+  aiColor: 'white' | 'black',
+  difficulty: AIDifficulty,
+  enPassantTarget: Position | null,
+  combatRules: CombatRules,
+  random: RandomSource,
+  onProgress?: (progress: SearchResult) => void,
+  timeBudgetMs: number = EXPERT_TIME_BUDGET_MS
+): AIMove | null {
+  const possibleMoves = getAllPossibleMoves(board, aiColor, enPassantTarget, combatRules);
   
   if (possibleMoves.length === 0) return null;
   
   switch (difficulty) {
     case 'easy':
-      return makeRandomMove(possibleMoves);
+      return makeRandomMove(possibleMoves, random);
     case 'medium':
-      return makeBasicStrategyMove(board, possibleMoves, aiColor);
+      return makeBasicStrategyMove(board, possibleMoves, aiColor, random);
     case 'hard':
-      return makeAdvancedMove(board, possibleMoves, aiColor);
+      return makeAdvancedMove(board, possibleMoves, aiColor, random);
+    case 'expert': {
+      const result = findBestMove(board, aiColor, enPassantTarget, { timeBudgetMs, combatRules, onIteration: onProgress });
+      if (!result) return null;
+      const { from, to, ability, depth, score, nodes } = result;
+      return { from, to, ability, analysis: { depth, score, nodes } };
+    }
     default:
-      return makeRandomMove(possibleMoves);
+      return makeRandomMove(possibleMoves, random);
   }
 }
 
-function getAllPossibleMoves(board: (ChessPiece | null)[][], color: 'white' | 'black'): Move[] {
+export function chooseAIPromotion(board: (ChessPiece | null)[][], position: Position, difficulty: AIDifficulty): PromotionPieceType {
+  const pawn = board[position.row][position.col];
+  if (!pawn || difficulty === 'easy') return 'queen';
+  
+  const opponentColor = pawn.color === 'white' ? 'black' : 'white';
+  const givesCheck = (type: PromotionPieceType) => {
+    const testBoard = board.map(row => [...row]);
+    testBoard[position.row][position.col] = promotePiece(pawn, type);
+    return isInCheck(testBoard, opponentColor);
+  };
+  
+  // Underpromote only for a knight check that a queen on the same square can't give
+  if (givesCheck('knight') && !givesCheck('queen')) {
+    return 'knight';
+  }
+  
+  return 'queen';
+}
+
+function getAllPossibleMoves(
+  board: (ChessPiece | null)[][],
+  color: 'white' | 'black',
+  enPassantTarget: Position | null,
+  combatRules: CombatRules
+): Move[] {
   const moves: Move[] = [];
   
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
       const piece = board[row][col];
       if (piece && piece.color === color) {
-        const validMoves = getValidMoves(board, { row, col });
-        validMoves.forEach(to => {
-          const captureValue = board[to.row][to.col] ? getPieceValue(board[to.row][to.col]!.type) : 0;
+        const legalMoves = getLegalMoves(board, { row, col }, enPassantTarget, combatRules);
+        legalMoves.forEach(to => {
+          const enPassantVictim = getEnPassantVictim(board, { row, col }, to, enPassantTarget) ?? undefined;
+          const captured = board[to.row][to.col] ?? (enPassantVictim ? board[enPassantVictim.row][enPassantVictim.col] : null);
+          const outcomes = captured ? getBattleOutcomeDistribution(piece, captured, combatRules) : undefined;
+          const captureChance = outcomes?.find(outcome => outcome.result === 'attacker_wins')?.probability ?? 0;
+          const captureValue = captured ? getPieceValue(captured.type) * captureChance : 0;
           moves.push({
             from: { row, col },
             to,
             score: 0,
-            captureValue
+            captureValue,
+            outcomes,
+            enPassantVictim
           });
         });
       }
     }
   }
   
+  // Or spend the turn on an ability
+  getAbilityUses(board, color).forEach(({ from, to, abilityId }) => {
+    moves.push({ from, to, score: 0, ability: abilityId, abilityValue: getAbilityValue(board, from, to, abilityId) });
+  });
+  
   return moves;
 }
 
-function makeRandomMove(moves: Move[]): { from: Position; to: Position } {
-  const randomIndex = Math.floor(Math.random() * moves.length);
-  const move = moves[randomIndex];
-  return { from: move.from, to: move.to };
+// Health each piece gains or loses as a share of its max health, times its
+// value, plus half a pawn for every attribute point handed out and whatever
+// its statuses are worth, from the user's side
+function getAbilityValue(board: (ChessPiece | null)[][], from: Position, to: Position, abilityId: string): number {
+  const color = board[from.row][from.col]!.color;
+  const after = resolveAbility(board, from, to, abilityId).board;
+  let value = 0;
+
+  board.forEach((row, rowIndex) => row.forEach((piece, col) => {
+    const changed = after[rowIndex][col];
+    if (!piece || !changed) return;
+
+    // The king's material value stands for the whole game, not its health
+    const worth = piece.type === 'king' ? getPieceValue('knight') : getPieceValue(piece.type);
+    const change = (changed.health - piece.health) / getMaxHealth(piece) * worth +
+      (changed.unspentPoints - piece.unspentPoints) * 0.5 +
+      getStatusValue(changed, worth) - getStatusValue(piece, worth);
+    value += piece.color === color ? change : -change;
+  }));
+
+  return value;
 }
 
-function makeBasicStrategyMove(board: (ChessPiece | null)[][], moves: Move[], aiColor: 'white' | 'black'): { from: Position; to: Position } {
+// A fiftieth of a pawn per point of attack or defense, damage still to come
+// as lost health, and half a pawn for being stunned
+function getStatusValue(piece: ChessPiece, worth: number): number {
+  if (!piece.statuses) return 0;
+  const { attack, defense } = getStatusModifiers(piece);
+  return (attack + defense) * 0.02 - getPendingStatusDamage(piece) / getMaxHealth(piece) * worth - (isStunned(piece) ? 0.5 : 0);
+}
+
+function toAIMove(move: Move): AIMove {
+  return move.ability ? { from: move.from, to: move.to, ability: move.ability } : { from: move.from, to: move.to };
+}
+
+function makeRandomMove(moves: Move[], random: RandomSource): AIMove {
+  return toAIMove(moves[randomIndex(random, moves.length)]);
+}
+
+function makeBasicStrategyMove(board: (ChessPiece | null)[][], moves: Move[], aiColor: 'white' | 'black', random: RandomSource): AIMove {
   // Score moves based on basic strategy
   const scoredMoves = moves.map(move => {
     let score = 0;
     
+    if (move.ability) {
+      return { ...move, score: (move.abilityValue || 0) * 8 + random() * 5 };
+    }
+    
     // Prioritize captures
     if (move.captureValue && move.captureValue > 0) {
       score += move.captureValue * 10;
     }
     
-    // Avoid moves that put king in check
-    const testBoard = simulateMove(board, move);
-    if (isInCheck(testBoard, aiColor)) {
-      score -= 1000;
-    }
-    
     // Prefer center control
     const centerDistance = Math.abs(move.to.row - 3.5) + Math.abs(move.to.col - 3.5);
     score += (7 - centerDistance) * 2;
     
     // Random factor for unpredictability
-    score += Math.random() * 5;
+    score += random() * 5;
     
     return { ...move, score };
   });
   
   // Sort by score and pick the best
   scoredMoves.sort((a, b) => b.score - a.score);
-  const bestMove = scoredMoves[0];
-  
-  return { from: bestMove.from, to: bestMove.to };
+  return toAIMove(scoredMoves[0]);
 }
 
-function makeAdvancedMove(board: (ChessPiece | null)[][], moves: Move[], aiColor: 'white' | 'black'): { from: Position; to: Position } {
+function makeAdvancedMove(board: (ChessPiece | null)[][], moves: Move[], aiColor: 'white' | 'black', random: RandomSource): AIMove {
   // Advanced strategy with deeper analysis
   const scoredMoves = moves.map(move => {
     let score = 0;
     
-    // Simulate the move
-    const testBoard = simulateMove(board, move);
-    
-    // Avoid illegal moves
-    if (isInCheck(testBoard, aiColor)) {
-      score -= 10000;
+    if (move.ability) {
+      // Abilities leave every piece where it is
+      score += (move.abilityValue || 0) * 12 + evaluatePosition(board, aiColor) + random() * 2;
       return { ...move, score };
     }
     
@@ -115,59 +218,67 @@ function makeAdvancedMove(board: (ChessPiece | null)[][], moves: Move[], aiColor
       score += 5;
     }
     
-    // King safety
-    const opponentColor = aiColor === 'white' ? 'black' : 'white';
-    if (isInCheck(testBoard, opponentColor)) {
-      score += 50; // Putting opponent in check is valuable
-    }
-    
-    // Control center squares
-    const centerSquares = [[3, 3], [3, 4], [4, 3], [4, 4]];
-    if (centerSquares.some(([r, c]) => r === move.to.row && c === move.to.col)) {
-      score += 10;
-    }
-    
-    // Piece coordination (pieces supporting each other)
-    score += countSupportingPieces(testBoard, move.to, aiColor) * 3;
-    
-    // Tactical patterns
-    score += evaluatePosition(testBoard, aiColor);
+    // A capture is scored over each way its battle can go, by how likely it is
+    const outcomes = move.outcomes ?? [{ result: 'attacker_wins' as const, probability: 1 }];
+    outcomes.forEach(({ result, probability }) => {
+      // Simulate the move
+      const testBoard = simulateMove(board, move, result);
+      const square = result === 'attacker_wins' ? move.to : move.from;
+      let outcomeScore = 0;
+      
+      // King safety
+      const opponentColor = aiColor === 'white' ? 'black' : 'white';
+      if (isInCheck(testBoard, opponentColor)) {
+        outcomeScore += 50; // Putting opponent in check is valuable
+      }
+      
+      // Control center squares
+      const centerSquares = [[3, 3], [3, 4], [4, 3], [4, 4]];
+      if (result === 'attacker_wins' && centerSquares.some(([r, c]) => r === move.to.row && c === move.to.col)) {
+        outcomeScore += 10;
+      }
+      
+      // Piece coordination (pieces supporting each other)
+      if (result !== 'defender_wins') {
+        outcomeScore += countSupportingPieces(testBoard, square, aiColor) * 3;
+      }
+      
+      // Tactical patterns
+      outcomeScore += evaluatePosition(testBoard, aiColor);
+      score += probability * outcomeScore;
+    });
     
     // Small random factor
-    score += Math.random() * 2;
+    score += random() * 2;
     
     return { ...move, score };
   });
   
   // Sort by score and pick the best
   scoredMoves.sort((a, b) => b.score - a.score);
-  const bestMove = scoredMoves[0];
-  
-  return { from: bestMove.from, to: bestMove.to };
+  return toAIMove(scoredMoves[0]);
 }
 
-function simulateMove(board: (ChessPiece | null)[][], move: Move): (ChessPiece | null)[][] {
-  const newBoard = board.map(row => [...row]);
-  const piece = newBoard[move.from.row][move.from.col];
-  
-  if (piece) {
-    newBoard[move.to.row][move.to.col] = { ...piece, hasMoved: true };
-    newBoard[move.from.row][move.from.col] = null;
+// The board after the move, or after a capture whose battle went `result`: a
+// repelled attacker is destroyed, and when both survive nothing moves
+function simulateMove(board: (ChessPiece | null)[][], move: Move, result: BattleResult['result']): (ChessPiece | null)[][] {
+  if (result !== 'attacker_wins') {
+    const newBoard = board.map(row => [...row]);
+    if (result === 'defender_wins') {
+      newBoard[move.from.row][move.from.col] = null;
+    }
+    return newBoard;
+  }
+
+  const newBoard = applyMoveToBoard(board, move.from, move.to);
+  if (move.enPassantVictim) {
+    newBoard[move.enPassantVictim.row][move.enPassantVictim.col] = null;
   }
-  
   return newBoard;
 }
 
 function getPieceValue(type: ChessPiece['type']): number {
-  const values = {
-    pawn: 1,
-    knight: 3,
-    bishop: 3,
-    rook: 5,
-    queen: 9,
-    king: 100
-  };
-  return values[type];
+  return getPieceDefinition(type).aiValue.material;
 }
 
 function countSupportingPieces(board: (ChessPiece | null)[][], position: Position, color: 'white' | 'black'): number {
@@ -0,0 +1,45 @@
+import { apiRequest } from "../queryClient";
+import type {
+  GameDetails,
+  GameSnapshot,
+  GameSummary,
+  InsertGame,
+  InsertGameEvent,
+  InsertGameParticipant,
+  LeaderboardPage,
+} from "@shared/schema";
+
+// Saved games and ratings on the server. Timestamps arrive as ISO strings.
+
+export async function createGameRecord(
+  game: InsertGame & { participants: InsertGameParticipant[] }
+): Promise<GameDetails> {
+  const res = await apiRequest('POST', '/api/games', game);
+  return res.json();
+}
+
+// Replaces any saved turns from `fromPly` on
+export async function appendGameEvents(
+  id: number,
+  fromPly: number,
+  events: InsertGameEvent[],
+  snapshot: GameSnapshot
+): Promise<GameDetails> {
+  const res = await apiRequest('POST', `/api/games/${id}/events`, { fromPly, events, snapshot });
+  return res.json();
+}
+
+export async function loadGameRecord(id: number): Promise<GameDetails> {
+  const res = await apiRequest('GET', `/api/games/${id}`);
+  return res.json();
+}
+
+export async function listGameRecords(status: 'active' | 'finished', limit = 5): Promise<GameSummary[]> {
+  const res = await apiRequest('GET', `/api/games?status=${status}&limit=${limit}`);
+  return res.json();
+}
+
+export async function fetchLeaderboard(limit: number, offset: number): Promise<LeaderboardPage> {
+  const res = await apiRequest('GET', `/api/leaderboard?limit=${limit}&offset=${offset}`);
+  return res.json();
+}
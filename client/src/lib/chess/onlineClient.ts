@@ -0,0 +1,119 @@
+import { ONLINE_SOCKET_PATH, ClientMessage, ServerMessage } from "@shared/onlineProtocol";
+
+// Browser side of online play: one WebSocket to the game server, reopened with
+// backoff whenever it drops. Once seated, the room code and seat token are
+// saved so a reconnect, or a reload of the page, resumes the same seat.
+
+export type OnlineConnectionStatus = 'connecting' | 'connected' | 'reconnecting';
+
+export interface OnlineSession {
+  code: string;
+  token: string;
+}
+
+interface OnlineHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatus: (status: OnlineConnectionStatus) => void;
+}
+
+const SESSION_KEY = 'chess-rpg-online-session';
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+let socket: WebSocket | null = null;
+let handlers: OnlineHandlers | null = null;
+// Sent on the first connection only; later ones resume the saved session
+let openingMessage: ClientMessage | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function loadOnlineSession(): OnlineSession | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null');
+    return saved && typeof saved.code === 'string' && typeof saved.token === 'string' ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveOnlineSession(session: OnlineSession | null): void {
+  if (session) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+}
+
+// Opens the connection and sends `message` (create or join) once it's up, or
+// resumes the saved session when no message is given
+export function connectOnline(message: ClientMessage | null, onlineHandlers: OnlineHandlers): void {
+  disconnectOnline();
+  if (message) saveOnlineSession(null);
+  handlers = onlineHandlers;
+  openingMessage = message;
+  reconnectAttempts = 0;
+  openSocket();
+}
+
+export function sendOnline(message: ClientMessage): void {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Leaves the game for good: the seat's token is forgotten
+export function disconnectOnline(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    const closing = socket;
+    socket = null;
+    if (closing.readyState === WebSocket.OPEN) {
+      closing.send(JSON.stringify({ type: 'leave' } satisfies ClientMessage));
+    }
+    closing.close();
+  }
+  handlers = null;
+  saveOnlineSession(null);
+}
+
+function openSocket(): void {
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const current = new WebSocket(`${protocol}//${location.host}${ONLINE_SOCKET_PATH}`);
+  socket = current;
+
+  current.onopen = () => {
+    reconnectAttempts = 0;
+    const session = loadOnlineSession();
+    const message: ClientMessage | null = session ? { type: 'resume', ...session } : openingMessage;
+    if (message) current.send(JSON.stringify(message));
+  };
+
+  current.onmessage = (event: MessageEvent<string>) => {
+    const message = JSON.parse(event.data) as ServerMessage;
+    if (message.type === 'seated') {
+      saveOnlineSession({ code: message.code, token: message.token });
+      openingMessage = null;
+      handlers?.onStatus('connected');
+    }
+    handlers?.onMessage(message);
+    if (message.type === 'error' && message.fatal) {
+      disconnectOnline();
+    }
+  };
+
+  current.onclose = () => {
+    // Ignore sockets we closed on purpose or have already replaced
+    if (socket !== current || !handlers) return;
+    socket = null;
+    handlers.onStatus('reconnecting');
+
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 500 * 2 ** reconnectAttempts);
+    reconnectAttempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      openSocket();
+    }, delay);
+  };
+}
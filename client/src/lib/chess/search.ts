@@ -0,0 +1,361 @@
+import { ChessPiece, Position } from "@shared/game/types";
+import {
+  getLegalMoves,
+  getEnPassantVictim,
+  getDoubleStepTarget,
+  applyMoveToBoard,
+  isInCheck,
+  isPromotionSquare
+} from "@shared/game/chessLogic";
+import { getBattleOutcomeDistribution, BattleOutcome } from "@shared/game/battleSystem";
+import { getPositionKey } from "@shared/game/drawRules";
+import { getMaxHealth, getEffectiveStats, promotePiece } from "@shared/game/pieceData";
+import { getAbilityUses, resolveAbility } from "@shared/game/abilities";
+import { getPieceDefinition } from "@shared/game/pieceDefinitions";
+import { applyStatuses, getPendingStatusDamage, getStatusModifiers, isStunned } from "@shared/game/statusEffects";
+import { CombatRules } from "@shared/game/combatRules";
+
+// Expectiminimax search for the expert AI. Quiet moves are searched with
+// iterative-deepening alpha-beta; a capture is a chance node whose value is the
+// probability-weighted value of its three battle results, so the engine knows a
+// capture can fail and leave the attacker exposed.
+
+type Board = (ChessPiece | null)[][];
+
+export interface SearchOptions {
+  timeBudgetMs: number;
+  // The game's, which decide both the battle odds and which moves are legal
+  combatRules: CombatRules;
+  maxDepth?: number;
+  // Called with the best move so far after each completed depth
+  onIteration?: (result: SearchResult) => void;
+}
+
+export interface SearchResult {
+  from: Position;
+  to: Position;
+  // The best move uses this ability on the piece on `to`
+  ability?: string;
+  score: number;
+  depth: number;
+  nodes: number;
+}
+
+interface SearchMove {
+  from: Position;
+  to: Position;
+  // Square of the piece being battled, when the move is a capture
+  defender?: Position;
+  // Ability used on the piece on `to` instead of moving
+  ability?: string;
+  orderScore: number;
+}
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  flag: 'exact' | 'lower' | 'upper';
+  best?: SearchMove;
+}
+
+interface SearchContext {
+  rules: CombatRules;
+  deadline: number;
+  nodes: number;
+  aborted: boolean;
+  table: Map<string, TableEntry>;
+}
+
+const MATE_SCORE = 100000;
+const DEFAULT_MAX_DEPTH = 6;
+// Centipawns an ability must gain to be searched at all
+const MIN_ABILITY_GAIN = 10;
+
+const pieceValue = (type: ChessPiece['type']) => getPieceDefinition(type).aiValue.centipawns;
+
+export function findBestMove(
+  board: Board,
+  color: 'white' | 'black',
+  enPassantTarget: Position | null,
+  options: SearchOptions
+): SearchResult | null {
+  const context: SearchContext = {
+    rules: options.combatRules,
+    deadline: Date.now() + options.timeBudgetMs,
+    nodes: 0,
+    aborted: false,
+    table: new Map()
+  };
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const rootMoves = generateMoves(context, board, color, enPassantTarget);
+  if (rootMoves.length === 0) return null;
+
+  let result: SearchResult = { from: rootMoves[0].from, to: rootMoves[0].to, ability: rootMoves[0].ability, score: 0, depth: 0, nodes: 0 };
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    let alpha = -Infinity;
+    let bestMove: SearchMove | null = null;
+
+    // Search last iteration's best move first
+    orderMoves(rootMoves, context.table.get(getPositionKey(board, color, enPassantTarget))?.best);
+
+    for (const move of rootMoves) {
+      const score = searchMove(context, board, move, color, enPassantTarget, depth, alpha, Infinity, 0);
+      if (context.aborted) break;
+      if (score > alpha) {
+        alpha = score;
+        bestMove = move;
+      }
+    }
+
+    // The previous best move is searched first, so even a cut-off iteration's
+    // choice is at least as good as it at this depth
+    if (bestMove) {
+      result = { from: bestMove.from, to: bestMove.to, ability: bestMove.ability, score: alpha, depth, nodes: context.nodes };
+      context.table.set(getPositionKey(board, color, enPassantTarget), { depth, score: alpha, flag: 'exact', best: bestMove });
+      options.onIteration?.(result);
+    }
+    if (context.aborted || Math.abs(alpha) >= MATE_SCORE - maxDepth) break;
+  }
+
+  return { ...result, nodes: context.nodes };
+}
+
+function negamax(
+  context: SearchContext,
+  board: Board,
+  color: 'white' | 'black',
+  enPassantTarget: Position | null,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number
+): number {
+  context.nodes++;
+  // Nodes are expensive (legal move generation tries every battle result), so check the clock at each one
+  if (Date.now() > context.deadline) {
+    context.aborted = true;
+  }
+  if (context.aborted) return 0;
+
+  const key = getPositionKey(board, color, enPassantTarget);
+  const entry = context.table.get(key);
+  if (entry && entry.depth >= depth) {
+    if (entry.flag === 'exact') return entry.score;
+    if (entry.flag === 'lower') alpha = Math.max(alpha, entry.score);
+    if (entry.flag === 'upper') beta = Math.min(beta, entry.score);
+    if (alpha >= beta) return entry.score;
+  }
+
+  const moves = generateMoves(context, board, color, enPassantTarget);
+  if (moves.length === 0) {
+    return isInCheck(board, color) ? -MATE_SCORE + ply : 0;
+  }
+  if (depth === 0) {
+    return evaluate(board, color);
+  }
+
+  orderMoves(moves, entry?.best);
+
+  const originalAlpha = alpha;
+  let bestScore = -Infinity;
+  let bestMove: SearchMove | undefined;
+
+  for (const move of moves) {
+    const score = searchMove(context, board, move, color, enPassantTarget, depth, alpha, beta, ply);
+    if (context.aborted) return 0;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break;
+  }
+
+  const flag = bestScore <= originalAlpha ? 'upper' : bestScore >= beta ? 'lower' : 'exact';
+  context.table.set(key, { depth, score: bestScore, flag, best: bestMove });
+
+  return bestScore;
+}
+
+function searchMove(
+  context: SearchContext,
+  board: Board,
+  move: SearchMove,
+  color: 'white' | 'black',
+  enPassantTarget: Position | null,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number
+): number {
+  const opponent = color === 'white' ? 'black' : 'white';
+
+  // Cooldowns and statuses don't tick within the search, which only makes it
+  // cautious
+  if (move.ability) {
+    const nextBoard = resolveAbility(board, move.from, move.to, move.ability).board;
+    return -negamax(context, nextBoard, opponent, null, depth - 1, -beta, -alpha, ply + 1);
+  }
+
+  if (!move.defender) {
+    const piece = board[move.from.row][move.from.col]!;
+    const nextBoard = promoteIfNeeded(applyMoveToBoard(board, move.from, move.to), move.to);
+    const nextEnPassant = getDoubleStepTarget(piece, move.from, move.to);
+    return -negamax(context, nextBoard, opponent, nextEnPassant, depth - 1, -beta, -alpha, ply + 1);
+  }
+
+  // Chance node: every battle result is searched with a full window, since
+  // their weighted sum is what gets compared against the bounds
+  const attacker = board[move.from.row][move.from.col]!;
+  const defender = board[move.defender.row][move.defender.col]!;
+  let expected = 0;
+
+  for (const outcome of getBattleOutcomeDistribution(attacker, defender, context.rules)) {
+    const nextBoard = applyBattleOutcome(board, move, outcome);
+    expected += outcome.probability * -negamax(context, nextBoard, opponent, null, depth - 1, -Infinity, Infinity, ply + 1);
+    if (context.aborted) return 0;
+  }
+
+  return expected;
+}
+
+function generateMoves(context: SearchContext, board: Board, color: 'white' | 'black', enPassantTarget: Position | null): SearchMove[] {
+  const moves: SearchMove[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== color) continue;
+
+      const from = { row, col };
+      getLegalMoves(board, from, enPassantTarget, context.rules).forEach(to => {
+        const defender = board[to.row][to.col] ? to : getEnPassantVictim(board, from, to, enPassantTarget) ?? undefined;
+        moves.push({ from, to, defender, orderScore: scoreForOrdering(context, board, piece, from, to, defender) });
+      });
+    }
+  }
+
+  const abilityUses = getAbilityUses(board, color);
+  const currentScore = abilityUses.length > 0 ? evaluate(board, color) : 0;
+  const weakAbilities: SearchMove[] = [];
+  abilityUses.forEach(({ from, to, abilityId }) => {
+    // An ability that barely helps is as good as passing, so it's left out.
+    // The rest go after the captures, and ahead of quiet moves only when they
+    // gain a lot.
+    const gain = evaluate(resolveAbility(board, from, to, abilityId).board, color) - currentScore;
+    const move = { from, to, ability: abilityId, orderScore: 5 * (gain - 20) };
+    (gain < MIN_ABILITY_GAIN ? weakAbilities : moves).push(move);
+  });
+
+  // A side whose only turns are weak abilities still has to take one; the
+  // rules don't count it as stalemated
+  return moves.length > 0 ? moves : weakAbilities;
+}
+
+// Likely-good captures first, then promotions, then the rest
+function scoreForOrdering(
+  context: SearchContext,
+  board: Board,
+  piece: ChessPiece,
+  from: Position,
+  to: Position,
+  defenderSquare?: Position
+): number {
+  let score = 0;
+
+  if (defenderSquare) {
+    const defender = board[defenderSquare.row][defenderSquare.col]!;
+    const winChance = getBattleOutcomeDistribution(piece, defender, context.rules)
+      .find(outcome => outcome.result === 'attacker_wins')?.probability ?? 0;
+    score += 1000 + winChance * pieceValue(defender.type) - pieceValue(piece.type) / 10;
+  }
+  if (isPromotionSquare(piece, to)) {
+    score += 800;
+  }
+  // Mild preference for heading toward the centre
+  score += 6 - (Math.abs(to.row - 3.5) + Math.abs(to.col - 3.5)) + (Math.abs(from.row - 3.5) + Math.abs(from.col - 3.5)) / 2;
+
+  return score;
+}
+
+function orderMoves(moves: SearchMove[], best?: SearchMove): void {
+  const isBest = (move: SearchMove) => !!best &&
+    move.from.row === best.from.row && move.from.col === best.from.col &&
+    move.to.row === best.to.row && move.to.col === best.to.col && move.ability === best.ability;
+
+  moves.sort((a, b) => {
+    if (isBest(a)) return -1;
+    if (isBest(b)) return 1;
+    return b.orderScore - a.orderScore;
+  });
+}
+
+function applyBattleOutcome(board: Board, move: SearchMove, outcome: BattleOutcome): Board {
+  const newBoard = board.map(row => [...row]);
+  const attacker = board[move.from.row][move.from.col]!;
+  const defender = board[move.defender!.row][move.defender!.col]!;
+  const attackerHealth = Math.max(1, Math.round(outcome.attackerHealth));
+  const defenderHealth = Math.max(1, Math.round(outcome.defenderHealth));
+
+  if (outcome.result === 'attacker_wins') {
+    newBoard[move.defender!.row][move.defender!.col] = null;
+    newBoard[move.from.row][move.from.col] = null;
+    newBoard[move.to.row][move.to.col] = { ...wound(attacker, attackerHealth, defender), hasMoved: true };
+    return promoteIfNeeded(newBoard, move.to);
+  }
+
+  newBoard[move.from.row][move.from.col] = outcome.result === 'defender_wins' ? null : wound(attacker, attackerHealth, defender);
+  newBoard[move.defender!.row][move.defender!.col] = wound(defender, defenderHealth, attacker);
+  return newBoard;
+}
+
+// A piece left with less health carries the other side's on-hit statuses
+function wound(piece: ChessPiece, health: number, by: ChessPiece): ChessPiece {
+  const wounded = { ...piece, health };
+  return health < piece.health ? applyStatuses(wounded, getPieceDefinition(by.type).onHit) : wounded;
+}
+
+// The search always promotes to a queen
+function promoteIfNeeded(board: Board, square: Position): Board {
+  const piece = board[square.row][square.col];
+  if (piece && isPromotionSquare(piece, square)) {
+    board[square.row][square.col] = promotePiece(piece, 'queen');
+  }
+  return board;
+}
+
+// Material weighted by remaining health (less damage over time still to
+// come), plus levels, upgrades (spent or not) and pawn advancement. Statuses
+// wear off, so their modifiers count a quarter as much as upgrades, and being
+// stunned costs a little.
+function evaluate(board: Board, color: 'white' | 'black'): number {
+  let score = 0;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.type === 'king') continue;
+
+      const stats = getEffectiveStats(piece);
+      const health = piece.statuses ? Math.max(1, piece.health - getPendingStatusDamage(piece)) : piece.health;
+      let value = pieceValue(piece.type) * (0.6 + 0.4 * health / getMaxHealth(piece));
+      value += (piece.level - 1) * 25 + (stats.attack + stats.defense + piece.unspentPoints) * 2;
+      if (piece.statuses) {
+        const modifiers = getStatusModifiers(piece);
+        value -= (modifiers.attack + modifiers.defense) * 1.5 + (isStunned(piece) ? 20 : 0);
+      }
+
+      if (piece.type === 'pawn') {
+        value += (piece.color === 'white' ? 6 - row : row - 1) * 8;
+      } else if (piece.type === 'knight' || piece.type === 'bishop') {
+        value += 10 - 3 * (Math.abs(row - 3.5) + Math.abs(col - 3.5));
+      }
+
+      score += piece.color === color ? value : -value;
+    }
+  }
+
+  return score;
+}
@@ -0,0 +1,66 @@
+import { create } from "zustand";
+import type { PublicUser } from "@shared/schema";
+import { apiRequest } from "../queryClient";
+
+interface AuthState {
+  user: PublicUser | null;
+  // 'checking' until we know whether the session cookie still holds a login
+  status: 'checking' | 'ready';
+  isSubmitting: boolean;
+  error: string | null;
+
+  loadSession: () => Promise<void>;
+  login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+// apiRequest's errors read "<status>: <body>"; show just the server's message
+const describeError = (error: unknown) => {
+  const text = error instanceof Error ? error.message : String(error);
+  try {
+    return JSON.parse(text.slice(text.indexOf(':') + 1)).message ?? text;
+  } catch {
+    return text;
+  }
+};
+
+export const useAuth = create<AuthState>((set) => {
+  const submit = async (url: string, username: string, password: string) => {
+    set({ isSubmitting: true, error: null });
+    try {
+      const res = await apiRequest('POST', url, { username, password });
+      set({ user: await res.json(), isSubmitting: false });
+    } catch (error) {
+      set({ error: describeError(error), isSubmitting: false });
+    }
+  };
+
+  return {
+    user: null,
+    status: 'checking',
+    isSubmitting: false,
+    error: null,
+
+    loadSession: async () => {
+      try {
+        const res = await fetch('/api/me', { credentials: 'include' });
+        set({ user: res.ok ? await res.json() : null, status: 'ready' });
+      } catch {
+        set({ user: null, status: 'ready', error: "Couldn't reach the server" });
+      }
+    },
+
+    login: (username, password) => submit('/api/login', username, password),
+
+    register: (username, password) => submit('/api/register', username, password),
+
+    logout: async () => {
+      try {
+        await apiRequest('POST', '/api/logout');
+      } finally {
+        set({ user: null, error: null });
+      }
+    },
+  };
+});
@@ -1,534 +1,959 @@
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
-import { getValidMoves, isInCheck, isCheckmate, isStalemate } from "../chess/chessLogic";
-import { makeAIMove } from "../chess/chessAI";
-import { resolveBattle as battleResolve, BattleResult } from "../chess/battleSystem";
-import { getPieceStats, xpToNext, calculateXPAward, getMaxHealth, calculateHealAmount } from "../chess/pieceData";
-import { v4 as uuidv4 } from 'uuid';
-
-export interface ChessPiece {
-  id: string;
-  type: 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
-  color: 'white' | 'black';
-  health: number;
-  level: number;
-  xp: number;
-  unspentPoints: number;
-  mods: {
-    attack: number;
-    defense: number;
-    maxHealth: number;
-  };
-  hasMoved?: boolean;
-}
+import { getLegalMoves } from "@shared/game/chessLogic";
+import { getAbilityTargets } from "@shared/game/abilities";
+import { ChessPiece, Position, PromotionPieceType } from "@shared/game/types";
+import {
+  GameState,
+  GameAction,
+  createGame,
+  applyAction,
+  startingClocks,
+  timeLeft,
+  checkFlag,
+  pauseClock,
+  resumeClock,
+  rewindTo
+} from "@shared/game/gameCore";
+import { TimeControl } from "@shared/game/timeControls";
+import { CombatRules, DEFAULT_COMBAT_RULES, parseCombatRules, rollsDice } from "@shared/game/combatRules";
+import { squareName, STARTING_POSITION } from "@shared/game/fen";
+import { parsePGN, findMoveBySAN } from "@shared/game/pgn";
+import { createSeededRandom, deriveStreamState, generateSeed } from "@shared/game/random";
+import { ClientMessage, GameIntent, ServerMessage, StateMessage } from "@shared/onlineProtocol";
+import { toGameEvent, settledTurnCount } from "@shared/gameRecords";
+import type { GameSnapshot } from "@shared/schema";
+import { chooseAIPromotion, EXPERT_TIME_BUDGET_MS } from "../chess/chessAI";
+import { chooseAttributeAllocation } from "../chess/aiPolicy";
+import { requestAIMove, cancelAIMove } from "../chess/aiClient";
+import { createGameRecord, appendGameEvents, loadGameRecord } from "../chess/gameRecords";
+import { connectOnline, sendOnline, disconnectOnline, loadOnlineSession, OnlineConnectionStatus } from "../chess/onlineClient";
 
-export interface Position {
-  row: number;
-  col: number;
-}
+// 'ava' is AI vs AI, watched by a spectator; 'online' is against a player on another machine
+type GameMode = 'pvp' | 'pvc' | 'ava' | 'online' | null;
+// 'ready' is the menu, before any game has started
+type GamePhase = 'ready' | GameState['gamePhase'];
+export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
 
-export interface BattleState {
-  attacker: ChessPiece;
-  defender: ChessPiece;
-  attackerRoll: number;
-  defenderRoll: number;
-  damage: number;
-  result: 'attacker_wins' | 'defender_wins' | 'both_survive';
-  attackerPosition: Position;
-  defenderPosition: Position;
+export interface OnlineState {
+  status: OnlineConnectionStatus;
+  // Invite code and our side, once the server has seated us
+  code: string | null;
+  color: 'white' | 'black' | null;
+  // Until the opponent takes their seat nobody can move
+  opponentSeated: boolean;
+  opponentConnected: boolean;
+  // Who is waiting for an answer to a takeback request
+  takebackRequestedBy: 'white' | 'black' | null;
 }
 
-type GameMode = 'pvp' | 'pvc' | null;
-type GamePhase = 'ready' | 'playing' | 'battle' | 'ended';
-type AIDifficulty = 'easy' | 'medium' | 'hard';
+// A point a local game can be taken back to, dice and all, so a move
+// played again rolls the same battle
+interface UndoEntry {
+  game: GameState;
+  battleRandomState: number;
+  aiRandomState: number;
+}
 
-interface ChessGameState {
-  // Game state
-  board: (ChessPiece | null)[][];
-  currentPlayer: 'white' | 'black';
+// The game itself is the shared core's GameState; everything else here is
+// about who plays it and how it's shown
+interface ChessGameState extends Omit<GameState, 'gamePhase'> {
   gamePhase: GamePhase;
   gameMode: GameMode;
-  aiDifficulty: AIDifficulty;
-  winner: 'white' | 'black' | null;
-  
+  // The side the human plays against the computer
+  humanColor: 'white' | 'black';
+  aiDifficulties: Record<'white' | 'black', AIDifficulty>;
+  // Seed for every random number in the game. Battles and the AI draw from
+  // separate streams so the AI's thinking never changes the dice. Null once
+  // a replayed game has rolled dice that didn't come from a seed.
+  seed: number | null;
+  battleRandomState: number;
+  aiRandomState: number;
+
   // UI state
   selectedSquare: Position | null;
   validMoves: Position[];
-  battleState: BattleState | null;
-  moveHistory: string[];
   hoveredSquare: Position | null;
-  
+
   // AI state
   aiThinkingTime: number;
-  
+  // True while the AI worker is working on a move
+  aiThinking: boolean;
+  // Progress of the running search, or statistics of the last one
+  aiAnalysis: { depth: number; nodes: number; elapsedMs?: number } | null;
+  // AI vs AI playback controls
+  aiPaused: boolean;
+  aiStepRequested: boolean;
+
+  // Online state; the server owns the game and the store mirrors it
+  online: OnlineState | null;
+  // Last complaint from the server, e.g. a rejected move or a bad invite code
+  onlineError: string | null;
+
+  // States before each decision a person made, newest last, and the states
+  // undone since the last decision
+  undoStack: UndoEntry[];
+  redoStack: UndoEntry[];
+
   // Experience system state
-  levelUpQueue: string[];
   activeLevelUpPieceId: string | null;
-  
-  // Heal system state
-  isHealMode: boolean;
-  selectedPieceForHeal: Position | null;
-  
+
+  // Ability the selected piece is aiming; validMoves then holds its targets
+  activeAbility: string | null;
+
   // Actions
   setGameMode: (mode: GameMode) => void;
-  setAIDifficulty: (difficulty: AIDifficulty) => void;
+  setHumanColor: (color: 'white' | 'black') => void;
+  // Sets both sides' difficulty unless a color is given
+  setAIDifficulty: (difficulty: AIDifficulty, color?: 'white' | 'black') => void;
+  setSeed: (seed: number) => void;
+  // Picked on the menu; restarts and loaded positions keep it
+  setTimeControl: (timeControl: TimeControl | null) => void;
+  // Picked on the menu like the time control
+  setCombatRules: (combatRules: CombatRules) => void;
+  // Ends a local game whose running clock has run out
+  tickClock: () => void;
   handleSquareClick: (row: number, col: number) => void;
+  playMove: (from: Position, to: Position) => void;
   resolveBattle: () => void;
+  promotePawn: (type: PromotionPieceType) => void;
+  resign: () => void;
+  // Local games only. Against the computer this also takes back its reply.
+  undo: () => void;
+  redo: () => void;
+  // Online, a takeback needs the opponent's agreement
+  requestTakeback: () => void;
+  answerTakeback: (accept: boolean) => void;
+  loadPosition: (text: string) => void;
+  loadPGN: (text: string) => void;
+  // Opens a saved game: unfinished ones carry on, finished ones show where they ended
+  openSavedGame: (id: number) => Promise<void>;
   restartGame: () => void;
   backToMenu: () => void;
   updateAI: (deltaTime: number) => void;
+  setAIPaused: (paused: boolean) => void;
+  stepAI: () => void;
+  hostOnlineGame: (color: 'white' | 'black' | 'random') => void;
+  joinOnlineGame: (code: string) => void;
+  // Takes back the seat saved from an earlier visit
+  resumeOnlineGame: () => void;
   setHoveredSquare: (pos: Position | null) => void;
-  
+
   // Experience system actions
-  awardXP: (pieceId: string, amount: number) => void;
   allocateAttributes: (pieceId: string, allocation: { attack?: number; defense?: number; maxHealth?: number }) => void;
   setActiveLevelUpPiece: (pieceId: string | null) => void;
-  
-  // Heal system actions
-  toggleHealMode: () => void;
-  performHeal: (bishopPosition: Position, targetPosition: Position) => void;
+  // Spends a computer-controlled piece's points without asking anyone
+  allocateAIAttributes: (pieceId: string) => void;
+
+  // Selects the piece on `position` and aims one of its abilities, or goes
+  // back to its moves when the id is null
+  selectAbility: (position: Position, abilityId: string | null) => void;
+  performAbility: (from: Position, to: Position, abilityId: string) => void;
 }
 
-// Initial board setup
-const createInitialBoard = (): (ChessPiece | null)[][] => {
-  const board: (ChessPiece | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
-  
-  // Place pieces with full health
-  const pieceOrder: ChessPiece['type'][] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
-  
-  // Black pieces (top)
-  for (let col = 0; col < 8; col++) {
-    const stats = getPieceStats(pieceOrder[col]);
-    board[0][col] = { 
-      id: uuidv4(),
-      type: pieceOrder[col], 
-      color: 'black', 
-      health: stats.maxHealth,
-      level: 1,
-      xp: 0,
-      unspentPoints: 0,
-      mods: { attack: 0, defense: 0, maxHealth: 0 }
-    };
-    const pawnStats = getPieceStats('pawn');
-    board[1][col] = { 
-      id: uuidv4(),
-      type: 'pawn', 
-      color: 'black', 
-      health: pawnStats.maxHealth,
-      level: 1,
-      xp: 0,
-      unspentPoints: 0,
-      mods: { attack: 0, defense: 0, maxHealth: 0 }
-    };
-  }
-  
-  // White pieces (bottom)
-  for (let col = 0; col < 8; col++) {
-    const stats = getPieceStats(pieceOrder[col]);
-    board[7][col] = { 
-      id: uuidv4(),
-      type: pieceOrder[col], 
-      color: 'white', 
-      health: stats.maxHealth,
-      level: 1,
-      xp: 0,
-      unspentPoints: 0,
-      mods: { attack: 0, defense: 0, maxHealth: 0 }
-    };
-    const pawnStats = getPieceStats('pawn');
-    board[6][col] = { 
-      id: uuidv4(),
-      type: 'pawn', 
-      color: 'white', 
-      health: pawnStats.maxHealth,
-      level: 1,
-      xp: 0,
-      unspentPoints: 0,
-      mods: { attack: 0, defense: 0, maxHealth: 0 }
-    };
+export const isAIControlled = (gameMode: GameMode, humanColor: 'white' | 'black', color: 'white' | 'black') =>
+  gameMode === 'ava' || (gameMode === 'pvc' && color !== humanColor);
+
+// How long a spectator gets to read each battle in AI vs AI
+const AI_BATTLE_DISPLAY_SECONDS = 2;
+
+const seedStreams = (seed: number) => ({
+  seed,
+  battleRandomState: deriveStreamState(seed, 'battle'),
+  aiRandomState: deriveStreamState(seed, 'ai')
+});
+
+// Clears what the last game left on screen
+const freshGameUI = {
+  selectedSquare: null,
+  validMoves: [],
+  aiThinkingTime: 0,
+  aiThinking: false,
+  aiAnalysis: null,
+  activeLevelUpPieceId: null,
+  activeAbility: null,
+  undoStack: [],
+  redoStack: []
+};
+
+const gameStateOf = (state: ChessGameState): GameState => {
+  const { gamePhase } = state;
+  if (gamePhase === 'ready') {
+    throw new Error('No game is in progress');
   }
-  
-  return board;
+
+  return {
+    board: state.board,
+    currentPlayer: state.currentPlayer,
+    gamePhase,
+    winner: state.winner,
+    winReason: state.winReason,
+    drawReason: state.drawReason,
+    enPassantTarget: state.enPassantTarget,
+    halfmoveClock: state.halfmoveClock,
+    fullmoveNumber: state.fullmoveNumber,
+    positionCounts: state.positionCounts,
+    startPosition: state.startPosition,
+    battleState: state.battleState,
+    pendingPromotion: state.pendingPromotion,
+    moveHistory: state.moveHistory,
+    levelUpQueue: state.levelUpQueue,
+    timeControl: state.timeControl,
+    clocks: state.clocks,
+    runningClock: state.runningClock,
+    clockRunningSince: state.clockRunningSince,
+    combatRules: state.combatRules
+  };
 };
 
 export const useChessGame = create<ChessGameState>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
-    board: createInitialBoard(),
-    currentPlayer: 'white',
+    ...createGame(),
     gamePhase: 'ready',
     gameMode: null,
-    aiDifficulty: 'medium',
-    winner: null,
-    selectedSquare: null,
-    validMoves: [],
-    battleState: null,
-    moveHistory: [],
-    aiThinkingTime: 0,
+    humanColor: 'white',
+    aiDifficulties: { white: 'medium', black: 'medium' },
+    ...seedStreams(generateSeed()),
+    ...freshGameUI,
+    aiPaused: false,
+    aiStepRequested: false,
+    online: null,
+    onlineError: null,
     hoveredSquare: null,
-    
-    // Experience system initial state
-    levelUpQueue: [],
-    activeLevelUpPieceId: null,
-    
-    // Heal system initial state
-    isHealMode: false,
-    selectedPieceForHeal: null,
-    
-    setGameMode: (mode) => set({ 
-      gameMode: mode, 
-      gamePhase: mode ? 'playing' : 'ready' 
-    }),
-    
-    setAIDifficulty: (difficulty) => set({ aiDifficulty: difficulty }),
-    
+
+    setGameMode: (mode) => {
+      startNewRecord();
+      set({
+        gameMode: mode,
+        gamePhase: mode ? 'playing' : 'ready'
+      });
+    },
+
+    setHumanColor: (color) => set({ humanColor: color }),
+
+    setAIDifficulty: (difficulty, color) => set((state) => ({
+      aiDifficulties: color
+        ? { ...state.aiDifficulties, [color]: difficulty }
+        : { white: difficulty, black: difficulty }
+    })),
+
+    // Restarts both random streams; call before the first move to reproduce a game
+    setSeed: (seed) => set(seedStreams(seed >>> 0)),
+
+    setTimeControl: (timeControl) => {
+      if (get().gamePhase !== 'ready') return;
+      set(startingClocks(timeControl));
+    },
+
+    setCombatRules: (combatRules) => {
+      if (get().gamePhase !== 'ready') return;
+      set({ combatRules });
+    },
+
+    tickClock: () => {
+      const state = get();
+      // Online, the server's clock decides
+      if (state.gameMode === 'online' || state.gamePhase === 'ready' || state.gamePhase === 'ended') return;
+
+      const game = gameStateOf(state);
+      const flagged = checkFlag(game, Date.now());
+      if (flagged === game) return;
+      cancelAIMove();
+      set({ ...flagged, ...freshGameUI });
+      saveProgress();
+    },
+
     handleSquareClick: (row, col) => {
       const state = get();
       if (state.gamePhase !== 'playing') return;
-      
-      const { board, selectedSquare, currentPlayer, isHealMode } = state;
+      // The computer's pieces aren't the human's to move, and neither are an online opponent's
+      if (isAIControlled(state.gameMode, state.humanColor, state.currentPlayer)) return;
+      if (state.gameMode === 'online' && (state.online?.color !== state.currentPlayer || !state.online.opponentSeated)) return;
+
+      const { board, selectedSquare, currentPlayer, activeAbility, enPassantTarget, combatRules } = state;
       const clickedPiece = board[row][col];
-      
+      const isTarget = state.validMoves.some(move => move.row === row && move.col === col);
+
       // If no piece is selected
       if (!selectedSquare) {
         if (clickedPiece && clickedPiece.color === currentPlayer) {
-          const validMoves = getValidMoves(board, { row, col }, isHealMode);
-          set({ 
-            selectedSquare: { row, col }, 
-            validMoves 
+          const validMoves = getLegalMoves(board, { row, col }, enPassantTarget, combatRules);
+          set({
+            selectedSquare: { row, col },
+            validMoves
           });
         }
         return;
       }
-      
+
+      // An aimed ability takes any of its targets, the piece itself included
+      if (activeAbility) {
+        if (isTarget) {
+          get().performAbility(selectedSquare, { row, col }, activeAbility);
+          return;
+        }
+        if (!clickedPiece || clickedPiece.color !== currentPlayer) return;
+      }
+
       // If clicking the same square, deselect
       if (selectedSquare.row === row && selectedSquare.col === col) {
-        set({ selectedSquare: null, validMoves: [] });
+        set({ selectedSquare: null, validMoves: [], activeAbility: null });
         return;
       }
-      
-      // Get selected piece for heal check
-      const selectedPiece = selectedSquare ? board[selectedSquare.row][selectedSquare.col] : null;
-      
-      // Special case: heal action in heal mode
-      if (isHealMode && selectedPiece && selectedPiece.type === 'bishop' && clickedPiece && clickedPiece.color === currentPlayer) {
-        // Check if this is a valid heal target
-        const isValidHealTarget = state.validMoves.some(move => move.row === row && move.col === col);
-        if (isValidHealTarget) {
-          get().performHeal(selectedSquare, { row, col });
-          return;
-        }
-      }
-      
+
       // If clicking another piece of the same color, select it
       if (clickedPiece && clickedPiece.color === currentPlayer) {
-        const validMoves = getValidMoves(board, { row, col }, isHealMode);
-        set({ 
-          selectedSquare: { row, col }, 
-          validMoves 
+        const validMoves = getLegalMoves(board, { row, col }, enPassantTarget, combatRules);
+        set({
+          selectedSquare: { row, col },
+          validMoves,
+          activeAbility: null
         });
         return;
       }
-      
+
       // Check if it's a valid move
-      const isValidMove = state.validMoves.some(move => move.row === row && move.col === col);
-      if (!isValidMove) return;
-      
-      if (!selectedPiece) return;
-      
-      // If there's a piece to capture, start battle
-      if (clickedPiece) {
-        const battleResult = battleResolve(selectedPiece, clickedPiece);
-        const battleStateWithPositions: BattleState = {
-          ...battleResult,
-          attackerPosition: { row: selectedSquare.row, col: selectedSquare.col },
-          defenderPosition: { row, col }
-        };
-        set({ 
-          battleState: battleStateWithPositions,
-          gamePhase: 'battle'
-        });
-      } else {
-        // Regular move
-        const newBoard = board.map(r => [...r]);
-        newBoard[row][col] = selectedPiece;
-        newBoard[selectedSquare.row][selectedSquare.col] = null;
-        
-        // Mark piece as moved
-        if (newBoard[row][col]) {
-          newBoard[row][col]!.hasMoved = true;
-        }
-        
-        const moveNotation = `${selectedPiece.type} ${String.fromCharCode(97 + selectedSquare.col)}${8 - selectedSquare.row} → ${String.fromCharCode(97 + col)}${8 - row}`;
-        
-        // Check for game end
-        const nextPlayer = currentPlayer === 'white' ? 'black' : 'white';
-        let winner = null;
-        let phase: GamePhase = 'playing';
-        
-        if (isCheckmate(newBoard, nextPlayer)) {
-          winner = currentPlayer;
-          phase = 'ended';
-        } else if (isStalemate(newBoard, nextPlayer)) {
-          phase = 'ended';
-        }
-        
-        set({ 
-          board: newBoard,
-          currentPlayer: nextPlayer,
-          selectedSquare: null,
-          validMoves: [],
-          moveHistory: [...state.moveHistory, moveNotation],
-          winner,
-          gamePhase: phase
-        });
+      if (!isTarget) return;
+
+      get().playMove(selectedSquare, { row, col });
+    },
+
+    // Plays a legal move for the current player. Captures start a battle.
+    playMove: (from, to) => {
+      const state = get();
+      if (state.gamePhase !== 'playing') return;
+
+      const { board, currentPlayer, enPassantTarget, combatRules } = state;
+      const piece = board[from.row][from.col];
+      if (!piece || piece.color !== currentPlayer) return;
+
+      const isLegal = getLegalMoves(board, from, enPassantTarget, combatRules).some(move => move.row === to.row && move.col === to.col);
+      if (!isLegal) return;
+
+      set({ selectedSquare: null, validMoves: [] });
+      // Online, the server checks the move and rolls any battle
+      if (state.gameMode === 'online') {
+        sendIntent({ type: 'move', from, to });
+        return;
       }
+      dispatchLocal({ type: 'move', player: currentPlayer, from, to });
     },
-    
+
     resolveBattle: () => {
       const state = get();
       if (!state.battleState) return;
-      
-      const { battleState, board, currentPlayer } = state;
-      const { attackerPosition, defenderPosition } = battleState;
-      
-      const newBoard = board.map(r => [...r]);
-      
-      if (battleState.result === 'attacker_wins') {
-        // Attacker wins, move to defender's position
-        newBoard[defenderPosition.row][defenderPosition.col] = battleState.attacker;
-        newBoard[attackerPosition.row][attackerPosition.col] = null;
-        // Mark piece as moved
-        newBoard[defenderPosition.row][defenderPosition.col]!.hasMoved = true;
-      } else if (battleState.result === 'defender_wins') {
-        // Defender wins, attacker is destroyed (removed from original position)
-        newBoard[attackerPosition.row][attackerPosition.col] = null;
-        // Defender stays in place with updated health
-        newBoard[defenderPosition.row][defenderPosition.col] = battleState.defender;
-      } else {
-        // Both survive, update health but stay in original positions
-        newBoard[attackerPosition.row][attackerPosition.col] = battleState.attacker;
-        newBoard[defenderPosition.row][defenderPosition.col] = battleState.defender;
+      if (state.gameMode === 'online') {
+        sendIntent({ type: 'resolveBattle' });
+        return;
       }
-      
-      // Award XP for victories
-      if (battleState.result === 'attacker_wins') {
-        const xpAward = calculateXPAward(battleState.attacker.level, battleState.defender.level, battleState.defender.type);
-        console.log(`Battle XP: ${battleState.attacker.type} (${battleState.attacker.id}) defeats ${battleState.defender.type} and gains ${xpAward} XP`);
-        // Use setTimeout to ensure XP is awarded after board state is updated
-        setTimeout(() => get().awardXP(battleState.attacker.id, xpAward), 0);
-      } else if (battleState.result === 'defender_wins') {
-        const xpAward = calculateXPAward(battleState.defender.level, battleState.attacker.level, battleState.attacker.type);
-        console.log(`Battle XP: ${battleState.defender.type} (${battleState.defender.id}) defeats ${battleState.attacker.type} and gains ${xpAward} XP`);
-        // Use setTimeout to ensure XP is awarded after board state is updated
-        setTimeout(() => get().awardXP(battleState.defender.id, xpAward), 0);
+      dispatchLocal({ type: 'resolveBattle' });
+    },
+
+    promotePawn: (type) => {
+      const state = get();
+      if (state.gamePhase !== 'promotion' || !state.pendingPromotion) return;
+
+      const { row, col } = state.pendingPromotion;
+      const pawn = state.board[row][col];
+      if (!pawn || pawn.type !== 'pawn') return;
+      if (state.gameMode === 'online') {
+        sendIntent({ type: 'promote', pieceType: type });
+        return;
       }
-      
-      const moveNotation = `${battleState.attacker.type} battles ${battleState.defender.type} - ${battleState.result.replace('_', ' ')}`;
-      
-      // Check for game end
-      const nextPlayer = currentPlayer === 'white' ? 'black' : 'white';
-      let winner = null;
-      let phase: GamePhase = 'playing';
-      
-      if (isCheckmate(newBoard, nextPlayer)) {
-        winner = currentPlayer;
-        phase = 'ended';
-      } else if (isStalemate(newBoard, nextPlayer)) {
-        phase = 'ended';
+      dispatchLocal({ type: 'promote', player: pawn.color, pieceType: type });
+    },
+
+    resign: () => {
+      const state = get();
+      if (state.gamePhase === 'ready' || state.gamePhase === 'ended' || state.gameMode === 'ava') return;
+
+      if (state.gameMode === 'online') {
+        sendIntent({ type: 'resign' });
+        return;
       }
-      
-      set({ 
-        board: newBoard,
-        currentPlayer: nextPlayer,
-        selectedSquare: null,
-        validMoves: [],
-        battleState: null,
-        gamePhase: phase,
-        moveHistory: [...state.moveHistory, moveNotation],
-        winner
+      // Against the computer the human gives up; at a shared board it's whoever is to move
+      const player = state.gameMode === 'pvc' ? state.humanColor : state.currentPlayer;
+      cancelAIMove();
+      dispatchLocal({ type: 'resign', player }, { selectedSquare: null, validMoves: [], aiThinking: false });
+    },
+
+    undo: () => {
+      const state = get();
+      const entry = state.undoStack[state.undoStack.length - 1];
+      if (!entry || !canUndo(state)) return;
+
+      restoreEntry(entry, {
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, undoEntryOf(state)]
       });
     },
-    
+
+    redo: () => {
+      const state = get();
+      const entry = state.redoStack[state.redoStack.length - 1];
+      if (!entry || !canUndo(state)) return;
+
+      restoreEntry(entry, {
+        undoStack: [...state.undoStack, undoEntryOf(state)],
+        redoStack: state.redoStack.slice(0, -1)
+      });
+    },
+
+    requestTakeback: () => {
+      if (get().gameMode !== 'online') return;
+      set({ onlineError: null });
+      sendOnline({ type: 'takeback' });
+    },
+
+    answerTakeback: (accept) => {
+      if (get().gameMode !== 'online') return;
+      sendOnline({ type: 'takebackAnswer', accept });
+    },
+
     updateAI: (deltaTime) => {
       const state = get();
-      if (state.gameMode !== 'pvc' || state.currentPlayer !== 'black' || state.gamePhase !== 'playing') {
+      // Spectators can pause AI vs AI and advance it one step at a time
+      const isHeld = state.gameMode === 'ava' && state.aiPaused && !state.aiStepRequested;
+
+      // Nobody is there to dismiss the battle screen in AI vs AI
+      if (state.gameMode === 'ava' && state.gamePhase === 'battle') {
+        if (isHeld) return;
+        const newThinkingTime = state.aiThinkingTime + deltaTime;
+        if (newThinkingTime >= AI_BATTLE_DISPLAY_SECONDS || state.aiStepRequested) {
+          set({ aiThinkingTime: 0, aiStepRequested: false });
+          get().resolveBattle();
+        } else {
+          set({ aiThinkingTime: newThinkingTime });
+        }
         return;
       }
-      
+
+      if (state.gamePhase !== 'playing' || state.aiThinking || isHeld ||
+          !isAIControlled(state.gameMode, state.humanColor, state.currentPlayer)) {
+        return;
+      }
+
+      const difficulty = state.aiDifficulties[state.currentPlayer];
       const newThinkingTime = state.aiThinkingTime + deltaTime;
-      
-      // AI thinking delay based on difficulty
-      const thinkingDelay = state.aiDifficulty === 'easy' ? 0.5 : 
-                           state.aiDifficulty === 'medium' ? 1.0 : 1.5;
-      
-      if (newThinkingTime >= thinkingDelay) {
-        const aiMove = makeAIMove(state.board, state.aiDifficulty);
-        if (aiMove) {
-          // Simulate AI move
-          set({ selectedSquare: aiMove.from, validMoves: [aiMove.to] });
-          setTimeout(() => {
-            get().handleSquareClick(aiMove.to.row, aiMove.to.col);
-          }, 100);
-        }
-        set({ aiThinkingTime: 0 });
+
+      // AI thinking delay based on difficulty (the expert search takes its own time).
+      // On the clock the computer spends at most a small share of what it has left.
+      const clockLeftMs = timeLeft(state, state.currentPlayer, Date.now());
+      const thinkingDelay = Math.min(
+        difficulty === 'easy' || difficulty === 'expert' ? 0.5 : difficulty === 'medium' ? 1.0 : 1.5,
+        clockLeftMs / 1000 / 40
+      );
+
+      if (newThinkingTime >= thinkingDelay || state.aiStepRequested) {
+        const { board, currentPlayer, enPassantTarget, combatRules, aiRandomState } = state;
+        set({ aiThinkingTime: 0, aiThinking: true, aiAnalysis: null, aiStepRequested: false });
+
+        // The AI thinks in a worker so the 3D scene keeps rendering
+        requestAIMove(
+          {
+            board,
+            color: currentPlayer,
+            difficulty,
+            enPassantTarget,
+            combatRules,
+            randomState: aiRandomState,
+            timeBudgetMs: Math.min(EXPERT_TIME_BUDGET_MS, clockLeftMs / 30)
+          },
+          ({ depth, nodes }) => set({ aiAnalysis: { depth, nodes } })
+        )
+          .then(response => {
+            // Null when a restart or a loaded game cancelled the request
+            if (!response) return;
+            if (get().board !== board) {
+              set({ aiThinking: false });
+              return;
+            }
+
+            const { move, randomState, elapsedMs } = response;
+            set({
+              aiThinking: false,
+              aiRandomState: randomState,
+              aiAnalysis: move?.analysis ? { depth: move.analysis.depth, nodes: move.analysis.nodes, elapsedMs } : null
+            });
+            if (move) {
+              // Show the AI's choice briefly before playing it
+              set({ selectedSquare: move.from, validMoves: [move.to] });
+              setTimeout(() => {
+                if (move.ability) {
+                  get().performAbility(move.from, move.to, move.ability);
+                } else {
+                  get().playMove(move.from, move.to);
+                }
+              }, 100);
+            }
+          })
+          .catch(error => {
+            console.error('AI move failed:', error);
+            set({ aiThinking: false });
+          });
       } else {
         set({ aiThinkingTime: newThinkingTime });
       }
     },
-    
-    restartGame: () => set({
-      board: createInitialBoard(),
-      currentPlayer: 'white',
-      gamePhase: 'playing',
-      winner: null,
-      selectedSquare: null,
-      validMoves: [],
-      battleState: null,
-      moveHistory: [],
-      aiThinkingTime: 0,
-      hoveredSquare: null
-    }),
-    
-    backToMenu: () => set({
-      gameMode: null,
-      gamePhase: 'ready',
-      board: createInitialBoard(),
-      currentPlayer: 'white',
-      winner: null,
-      selectedSquare: null,
-      validMoves: [],
-      battleState: null,
-      moveHistory: [],
-      aiThinkingTime: 0,
-      levelUpQueue: [],
-      activeLevelUpPieceId: null,
-      hoveredSquare: null
-    }),
-    
-    // Experience system actions
-    awardXP: (pieceId: string, amount: number) => {
-      set((state) => {
-        const newBoard = state.board.map(row => row.map(piece => {
-          if (!piece || piece.id !== pieceId) return piece;
-          
-          let newPiece = { ...piece, xp: piece.xp + amount };
-          let leveledUp = false;
-          
-          // Check for level ups
-          while (newPiece.xp >= xpToNext(newPiece.level)) {
-            newPiece.xp -= xpToNext(newPiece.level);
-            newPiece.level++;
-            newPiece.unspentPoints++;
-            leveledUp = true;
+
+    // The clocks stop with the playback
+    setAIPaused: (paused) => {
+      const state = get();
+      const clocks = state.gameMode === 'ava' && state.gamePhase !== 'ready'
+        ? (paused ? pauseClock : resumeClock)(gameStateOf(state), Date.now())
+        : {};
+      set({ ...clocks, aiPaused: paused, aiStepRequested: false });
+    },
+
+    stepAI: () => {
+      if (get().aiPaused) {
+        set({ aiStepRequested: true });
+      }
+    },
+
+    hostOnlineGame: (color) => openOnlineGame({ type: 'create', color, timeControl: get().timeControl, combatRules: get().combatRules }),
+
+    joinOnlineGame: (code) => openOnlineGame({ type: 'join', code }),
+
+    resumeOnlineGame: () => {
+      if (loadOnlineSession()) {
+        openOnlineGame(null);
+      }
+    },
+
+    loadPosition: (text) => {
+      if (get().gameMode === 'online') {
+        throw new Error("Positions can't be loaded into an online game");
+      }
+      // Throws with a readable message when the text isn't a valid position
+      const game = createGame(text, get().timeControl, get().combatRules);
+      cancelAIMove();
+      startNewRecord();
+      set({ ...game, ...freshGameUI });
+      // Loaded computer pieces may already have points to spend
+      settleAIDecisions();
+    },
+
+    // Replays a recorded game through the game core. Nothing changes unless
+    // every move replays cleanly.
+    loadPGN: (text) => {
+      if (get().gameMode === 'online') {
+        throw new Error("Games can't be loaded into an online game");
+      }
+      const { tags, moves } = parsePGN(text);
+
+      // With the game's seed every battle rolls again from the same stream
+      const isSeeded = tags.Seed !== undefined && /^\d+$/.test(tags.Seed);
+      const streams = isSeeded ? seedStreams(Number(tags.Seed) >>> 0) : null;
+      const random = createSeededRandom(streams ? streams.battleRandomState : get().battleRandomState);
+      // The moves are replayed without clocks; the clocks start afresh after them.
+      // Only ordinary chess games come without a CombatRules tag, and their
+      // captures always succeeded.
+      if (tags.CombatRules === undefined && moves.some(move => move.battle)) {
+        throw new Error('The game records battles but has no CombatRules tag');
+      }
+      const combatRules = tags.CombatRules !== undefined
+        ? parseCombatRules(tags.CombatRules)
+        : { ...DEFAULT_COMBAT_RULES, mode: 'classic' as const };
+      let game = createGame(tags.RPGFEN || tags.FEN || STARTING_POSITION, null, combatRules);
+
+      moves.forEach((move, index) => {
+        const label = `move ${index + 1} (${move.san})`;
+        if (game.gamePhase !== 'playing') {
+          throw new Error(`The game is already over at ${label}`);
+        }
+        const player = game.currentPlayer;
+
+        if (move.ability) {
+          const { id, from, to } = move.ability;
+          try {
+            game = applyAction(game, { type: 'ability', player, abilityId: id, from, to }, random.next, 0);
+          } catch (error) {
+            throw new Error(`Invalid ability at ${label}: ${(error as Error).message}`);
+          }
+        } else {
+          const found = findMoveBySAN(game.board, player, game.enPassantTarget, move.san, combatRules);
+          if (!found) {
+            throw new Error(`Illegal or ambiguous ${label}`);
+          }
+
+          // Battles without dice don't need any recorded
+          const rolls: [number, number] = move.battle ? [move.battle.attackerRoll, move.battle.defenderRoll] : [0, 0];
+          game = applyAction(game, { type: 'move', player, from: found.from, to: found.to, rolls: isSeeded ? undefined : rolls }, random.next, 0);
+
+          const { battleState } = game;
+          if (battleState) {
+            if (!isSeeded && !move.battle && rollsDice(combatRules)) {
+              throw new Error(`The capture at ${label} has no recorded battle, and the game has no seed to roll it again`);
+            }
+            if (isSeeded && move.battle && (battleState.attackerRoll !== rolls[0] || battleState.defenderRoll !== rolls[1])) {
+              throw new Error(`The recorded rolls for ${label} don't match the game's seed`);
+            }
+            if (move.battle && battleState.result !== move.battle.result) {
+              throw new Error(`The recorded rolls for ${label} give ${battleState.result.replace('_', ' ')}, not ${move.battle.result.replace('_', ' ')}`);
+            }
+            game = applyAction(game, { type: 'resolveBattle' }, random.next, 0);
           }
-          
-          // Add to level up queue if leveled up
-          const newLevelUpQueue = leveledUp && !state.levelUpQueue.includes(pieceId) 
-            ? [...state.levelUpQueue, pieceId] 
-            : state.levelUpQueue;
-          
-          if (leveledUp) {
-            setTimeout(() => set({ levelUpQueue: newLevelUpQueue }), 0);
+          if (game.gamePhase === 'promotion') {
+            game = applyAction(game, { type: 'promote', player, pieceType: found.promotion ?? 'queen' }, random.next, 0);
           }
-          
-          return newPiece;
-        }));
-        
-        return { board: newBoard };
+        }
+
+        move.allocations.forEach(({ square, attack, defense, maxHealth }) => {
+          const piece = game.board[square.row][square.col];
+          const points = attack + defense + maxHealth;
+          if (!piece || points === 0 || points > piece.unspentPoints) {
+            throw new Error(`Invalid allocation on ${squareName(square)} after ${label}`);
+          }
+          game = applyAction(game, { type: 'allocate', player: piece.color, pieceId: piece.id, allocation: { attack, defense, maxHealth } }, random.next, 0);
+        });
+      });
+
+      cancelAIMove();
+      startNewRecord();
+      set({
+        ...game,
+        ...startingClocks(get().timeControl),
+        ...(streams ?? { seed: null }),
+        battleRandomState: random.getState(),
+        ...freshGameUI
       });
+      // Points the replay left on the computer's pieces are spent straight away
+      settleAIDecisions();
     },
-    
-    allocateAttributes: (pieceId: string, allocation: { attack?: number; defense?: number; maxHealth?: number }) => {
-      set((state) => {
-        const newBoard = state.board.map(row => row.map(piece => {
-          if (!piece || piece.id !== pieceId) return piece;
-          
-          const pointsUsed = (allocation.attack || 0) + (allocation.defense || 0) + (allocation.maxHealth || 0);
-          if (pointsUsed > piece.unspentPoints) return piece;
-          
-          const newMods = {
-            attack: piece.mods.attack + (allocation.attack || 0),
-            defense: piece.mods.defense + (allocation.defense || 0),
-            maxHealth: piece.mods.maxHealth + (allocation.maxHealth || 0)
-          };
-          
-          // If maxHealth increased, increase current health by the same amount (capped at new max)
-          let newHealth = piece.health;
-          if (allocation.maxHealth && allocation.maxHealth > 0) {
-            const newMaxHealth = getMaxHealth({ ...piece, mods: newMods });
-            newHealth = Math.min(newMaxHealth, piece.health + allocation.maxHealth);
-          }
-          
-          const updatedPiece = {
-            ...piece,
-            mods: newMods,
-            health: newHealth,
-            unspentPoints: piece.unspentPoints - pointsUsed
-          };
-          
-          return updatedPiece;
-        }));
-        
-        // Remove from queue if no more unspent points
-        const updatedPiece = newBoard.flat().find(p => p?.id === pieceId);
-        const newLevelUpQueue = updatedPiece && updatedPiece.unspentPoints === 0
-          ? state.levelUpQueue.filter(id => id !== pieceId)
-          : state.levelUpQueue;
-        
-        return { 
-          board: newBoard, 
-          levelUpQueue: newLevelUpQueue,
-          activeLevelUpPieceId: newLevelUpQueue.length > 0 ? state.activeLevelUpPieceId : null
-        };
+
+    openSavedGame: async (id) => {
+      const record = await loadGameRecord(id);
+      const { game, battleRandomState, aiRandomState } = record.snapshot;
+      const computer = record.participants.filter(participant => participant.aiDifficulty);
+      const human = record.participants.find(participant => !participant.aiDifficulty);
+
+      cancelAIMove();
+      // Only unfinished local games are saved any further
+      localRecord = { id: record.status === 'active' ? record.id : null, savedPlies: record.events.length };
+      set({
+        ...game,
+        // Time away from a saved game isn't charged to anyone
+        clockRunningSince: game.runningClock ? Date.now() : null,
+        // A finished online game is shown like a local one, with nobody to move
+        gameMode: record.mode === 'online' ? 'pvp' : record.mode,
+        humanColor: human?.color ?? 'white',
+        aiDifficulties: {
+          ...get().aiDifficulties,
+          ...Object.fromEntries(computer.map(participant => [participant.color, participant.aiDifficulty]))
+        },
+        seed: record.seed,
+        battleRandomState,
+        aiRandomState: aiRandomState ?? deriveStreamState(record.seed ?? generateSeed(), 'ai'),
+        ...freshGameUI,
+        aiPaused: false,
+        aiStepRequested: false,
+        hoveredSquare: null
       });
     },
-    
-    setActiveLevelUpPiece: (pieceId: string | null) => set({ activeLevelUpPieceId: pieceId }),
-    
-    // Heal system actions
-    toggleHealMode: () => {
-      set((state) => ({
-        isHealMode: !state.isHealMode,
-        selectedSquare: null,
-        validMoves: [],
-        selectedPieceForHeal: null
-      }));
+
+    restartGame: () => {
+      // An online game belongs to both players
+      if (get().gameMode === 'online') return;
+      cancelAIMove();
+      startNewRecord();
+      set({
+        ...createGame(STARTING_POSITION, get().timeControl, get().combatRules),
+        ...seedStreams(generateSeed()),
+        ...freshGameUI,
+        aiStepRequested: false,
+        hoveredSquare: null
+      });
+    },
+
+    backToMenu: () => {
+      cancelAIMove();
+      startNewRecord();
+      if (get().online) {
+        disconnectOnline();
+      }
+      set({
+        ...createGame(STARTING_POSITION, get().timeControl, get().combatRules),
+        gameMode: null,
+        gamePhase: 'ready',
+        ...seedStreams(generateSeed()),
+        ...freshGameUI,
+        aiPaused: false,
+        aiStepRequested: false,
+        online: null,
+        onlineError: null,
+        hoveredSquare: null
+      });
     },
-    
-    performHeal: (bishopPosition: Position, targetPosition: Position) => {
+
+    // Experience system actions
+    allocateAttributes: (pieceId: string, allocation: { attack?: number; defense?: number; maxHealth?: number }) => {
       const state = get();
-      const bishop = state.board[bishopPosition.row][bishopPosition.col];
-      const target = state.board[targetPosition.row][targetPosition.col];
-      
-      if (!bishop || !target || bishop.type !== 'bishop' || bishop.color !== target.color) {
+      const piece = state.board.flat().find(p => p?.id === pieceId);
+      if (!piece) return;
+
+      const points = {
+        attack: allocation.attack || 0,
+        defense: allocation.defense || 0,
+        maxHealth: allocation.maxHealth || 0
+      };
+      if (points.attack + points.defense + points.maxHealth > piece.unspentPoints) return;
+
+      if (state.gameMode === 'online') {
+        sendIntent({ type: 'allocate', pieceId, allocation: points });
         return;
       }
-      
-      const targetMaxHealth = getMaxHealth(target);
-      const healAmount = calculateHealAmount(bishop.level, targetMaxHealth);
-      const newHealth = Math.min(targetMaxHealth, target.health + healAmount);
-      
-      const newBoard = state.board.map(row => [...row]);
-      newBoard[targetPosition.row][targetPosition.col] = {
-        ...target,
-        health: newHealth
-      };
-      
-      const moveNotation = `${bishop.type} heals ${target.type} for ${healAmount} HP`;
-      const nextPlayer = state.currentPlayer === 'white' ? 'black' : 'white';
-      
+      dispatchLocal({ type: 'allocate', player: piece.color, pieceId, allocation: points });
+
+      if (get().levelUpQueue.length === 0) {
+        set({ activeLevelUpPieceId: null });
+      }
+    },
+
+    setActiveLevelUpPiece: (pieceId: string | null) => set({ activeLevelUpPieceId: pieceId }),
+
+    allocateAIAttributes: (pieceId) => {
+      const state = get();
+      const piece = state.board.flat().find(p => p?.id === pieceId);
+      if (!piece || piece.unspentPoints === 0) return;
+
+      const random = createSeededRandom(state.aiRandomState);
+      const allocation = chooseAttributeAllocation(piece, state.aiDifficulties[piece.color], random.next);
+      set({ aiRandomState: random.getState() });
+      get().allocateAttributes(pieceId, allocation);
+    },
+
+    selectAbility: (position, abilityId) => {
+      const state = get();
+      const piece = state.board[position.row][position.col];
+      if (state.gamePhase !== 'playing' || !piece || piece.color !== state.currentPlayer) return;
+      if (isAIControlled(state.gameMode, state.humanColor, piece.color)) return;
+      if (state.gameMode === 'online' && (state.online?.color !== piece.color || !state.online.opponentSeated)) return;
+
       set({
-        board: newBoard,
-        currentPlayer: nextPlayer,
-        selectedSquare: null,
-        validMoves: [],
-        isHealMode: false,
-        selectedPieceForHeal: null,
-        moveHistory: [...state.moveHistory, moveNotation]
+        selectedSquare: position,
+        validMoves: abilityId
+          ? getAbilityTargets(state.board, position, abilityId)
+          : getLegalMoves(state.board, position, state.enPassantTarget, state.combatRules),
+        activeAbility: abilityId
       });
     },
-    
+
+    performAbility: (from, to, abilityId) => {
+      const state = get();
+      const piece = state.board[from.row][from.col];
+      if (state.gamePhase !== 'playing' || !piece || piece.color !== state.currentPlayer) return;
+      if (!getAbilityTargets(state.board, from, abilityId).some(square => square.row === to.row && square.col === to.col)) return;
+
+      const abilityUI = { selectedSquare: null, validMoves: [], activeAbility: null };
+      if (state.gameMode === 'online') {
+        set(abilityUI);
+        sendIntent({ type: 'ability', abilityId, from, to });
+        return;
+      }
+      dispatchLocal({ type: 'ability', player: piece.color, abilityId, from, to }, abilityUI);
+    },
+
     setHoveredSquare: (pos) => set({ hoveredSquare: pos }),
   }))
 );
+
+// Runs an action through the game core, rolling any battle from the game's
+// battle stream, then makes whatever decisions belong to the computer
+const dispatchLocal = (action: GameAction, ui: Partial<ChessGameState> = {}) => {
+  const state = useChessGame.getState();
+  const random = createSeededRandom(state.battleRandomState);
+  const now = Date.now();
+  const played = applyAction(gameStateOf(state), action, random.next, now);
+  // A step through paused AI vs AI leaves the clocks stopped
+  const game = state.gameMode === 'ava' && state.aiPaused ? pauseClock(played, now) : played;
+
+  // Each decision a person makes is a point they can undo back to
+  const isUndoable = action.type !== 'resolveBattle' && action.type !== 'resign' &&
+    !isAIControlled(state.gameMode, state.humanColor, action.player);
+  const history = isUndoable ? { undoStack: [...state.undoStack, undoEntryOf(state)], redoStack: [] } : {};
+
+  useChessGame.setState({ ...game, battleRandomState: random.getState(), ...ui, ...history });
+  settleAIDecisions();
+  saveProgress();
+};
+
+const undoEntryOf = (state: ChessGameState): UndoEntry => ({
+  game: gameStateOf(state),
+  battleRandomState: state.battleRandomState,
+  aiRandomState: state.aiRandomState
+});
+
+// Finished games are final, so they can't be rated and then taken back
+const canUndo = (state: ChessGameState) =>
+  (state.gameMode === 'pvp' || state.gameMode === 'pvc') && state.gamePhase !== 'ready' && state.gamePhase !== 'ended';
+
+const restoreEntry = (entry: UndoEntry, stacks: Pick<ChessGameState, 'undoStack' | 'redoStack'>) => {
+  const { tickClock } = useChessGame.getState();
+  // A flag that has already fallen can't be taken back
+  tickClock();
+  const state = useChessGame.getState();
+  if (state.gamePhase === 'ended') return;
+
+  cancelAIMove();
+  const game = rewindTo(entry.game, gameStateOf(state), Date.now());
+  useChessGame.setState({
+    ...game,
+    battleRandomState: entry.battleRandomState,
+    aiRandomState: entry.aiRandomState,
+    ...freshGameUI,
+    ...stacks
+  });
+  rewindRecord(settledTurnCount(game));
+  saveProgress();
+};
+
+// The computer spends its own level-up points and promotes its own pawns;
+// only the human's pieces open the level-up and promotion screens
+const settleAIDecisions = () => {
+  const { board, levelUpQueue, gamePhase, pendingPromotion, gameMode, humanColor, aiDifficulties, allocateAIAttributes } = useChessGame.getState();
+
+  levelUpQueue.forEach(id => {
+    const piece = board.flat().find(p => p?.id === id);
+    if (piece && isAIControlled(gameMode, humanColor, piece.color)) {
+      allocateAIAttributes(id);
+    }
+  });
+
+  const pawn = pendingPromotion && board[pendingPromotion.row][pendingPromotion.col];
+  if (gamePhase === 'promotion' && pendingPromotion && pawn && isAIControlled(gameMode, humanColor, pawn.color)) {
+    const pieceType = chooseAIPromotion(useChessGame.getState().board, pendingPromotion, aiDifficulties[pawn.color]);
+    dispatchLocal({ type: 'promote', player: pawn.color, pieceType });
+  }
+};
+
+// The saved record of the local game on screen. Saves run one at a time, so
+// the record is created before any turns are added to it.
+let localRecord: { id: number | null; savedPlies: number } = { id: null, savedPlies: 0 };
+let pendingSave: Promise<void> = Promise.resolve();
+
+const startNewRecord = () => {
+  localRecord = { id: null, savedPlies: 0 };
+};
+
+// Turns from `ply` on were taken back, so the next save rewrites them. Queued
+// behind the saves already on their way.
+const rewindRecord = (ply: number) => {
+  const record = localRecord;
+  pendingSave = pendingSave.then(() => {
+    record.savedPlies = Math.min(record.savedPlies, ply);
+  });
+};
+
+// Saves the turns that can no longer change, and a snapshot to resume from.
+// Only games with a human at the board are kept.
+const saveProgress = () => {
+  const state = useChessGame.getState();
+  const { gameMode, gamePhase } = state;
+  if ((gameMode !== 'pvp' && gameMode !== 'pvc') || (gamePhase !== 'playing' && gamePhase !== 'ended')) return;
+  // An empty board is still saved once it was undone back to the start
+  if (state.moveHistory.length === 0 && localRecord.id === null) return;
+
+  const record = localRecord;
+  const game = gameStateOf(state);
+  const snapshot: GameSnapshot = { game, battleRandomState: state.battleRandomState, aiRandomState: state.aiRandomState };
+  const participant = (color: 'white' | 'black') => {
+    const isComputer = isAIControlled(gameMode, state.humanColor, color);
+    return {
+      color,
+      name: isComputer ? `Computer (${state.aiDifficulties[color]})` : 'Player',
+      aiDifficulty: isComputer ? state.aiDifficulties[color] : null
+    };
+  };
+
+  pendingSave = pendingSave
+    .then(async () => {
+      if (record.id === null) {
+        const created = await createGameRecord({
+          mode: gameMode,
+          startPosition: game.startPosition,
+          seed: state.seed,
+          participants: [participant('white'), participant('black')],
+          snapshot
+        });
+        record.id = created.id;
+      }
+
+      const settled = settledTurnCount(game);
+      const events = game.moveHistory
+        .slice(record.savedPlies, settled)
+        .map((move, index) => toGameEvent(move, record.savedPlies + index));
+      await appendGameEvents(record.id, record.savedPlies, events, snapshot);
+      record.savedPlies = Math.max(record.savedPlies, settled);
+    })
+    .catch(error => console.error('Saving the game failed:', error));
+};
+
+const sendIntent = (intent: GameIntent) => {
+  useChessGame.setState({ onlineError: null });
+  sendOnline({ type: 'intent', intent });
+};
+
+// Connects to the game server with a create or join request, or resumes the
+// saved seat when the message is null. The menu stays up until we're seated.
+const openOnlineGame = (message: ClientMessage | null) => {
+  useChessGame.setState({
+    online: { status: 'connecting', code: null, color: null, opponentSeated: false, opponentConnected: false, takebackRequestedBy: null },
+    onlineError: null
+  });
+
+  connectOnline(message, {
+    onStatus: (status) => {
+      const { online } = useChessGame.getState();
+      if (online) useChessGame.setState({ online: { ...online, status } });
+    },
+    onMessage: handleServerMessage
+  });
+};
+
+const handleServerMessage = (message: ServerMessage) => {
+  const { online, backToMenu } = useChessGame.getState();
+  if (!online) return;
+
+  if (message.type === 'seated') {
+    useChessGame.setState({
+      online: { ...online, code: message.code, color: message.color },
+      humanColor: message.color
+    });
+  } else if (message.type === 'state') {
+    applyOnlineState(message);
+  } else if (message.fatal) {
+    backToMenu();
+    useChessGame.setState({ onlineError: message.message });
+  } else {
+    useChessGame.setState({ onlineError: message.message });
+  }
+};
+
+// Mirrors the server's game, keeping the local selection when nothing moved
+const applyOnlineState = ({ state: game, opponentSeated, opponentConnected, serverTime, takebackRequestedBy }: StateMessage) => {
+  const state = useChessGame.getState();
+  // Our clock and the server's needn't agree; only the time since it started counts
+  const clockRunningSince = game.clockRunningSince === null ? null : game.clockRunningSince + Date.now() - serverTime;
+  const color = state.online?.color;
+
+  // Each player only spends points for their own pieces
+  const levelUpQueue = game.levelUpQueue.filter(id => game.board.flat().some(piece => piece?.id === id && piece.color === color));
+  const keepSelection = state.gameMode === 'online' && game.gamePhase === 'playing' &&
+    game.moveHistory.length === state.moveHistory.length;
+
+  useChessGame.setState({
+    ...game,
+    clockRunningSince,
+    gameMode: 'online',
+    levelUpQueue,
+    activeLevelUpPieceId: state.activeLevelUpPieceId && levelUpQueue.includes(state.activeLevelUpPieceId)
+      ? state.activeLevelUpPieceId
+      : null,
+    selectedSquare: keepSelection ? state.selectedSquare : null,
+    validMoves: keepSelection ? state.validMoves : [],
+    activeAbility: keepSelection ? state.activeAbility : null,
+    online: state.online && { ...state.online, opponentSeated, opponentConnected, takebackRequestedBy }
+  });
+};
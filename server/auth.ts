@@ -0,0 +1,154 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { credentialsSchema, type User as StoredUser, type PublicUser } from "@shared/schema";
+import { storage } from "./storage";
+
+// Accounts and sessions. Passwords are stored as salted scrypt hashes and the
+// session cookie only carries the user's id.
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+export function toPublicUser({ password, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+export const requireUser: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Log in first" });
+  }
+  next();
+};
+
+// Returns the session middleware, so the online game server can read the same
+// session when a WebSocket connects
+export function setupAuth(app: Express): RequestHandler {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const sessionParser = session({
+    // Sessions don't outlive a development server without a configured secret
+    secret: secret ?? randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+
+  app.set("trust proxy", 1);
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        done(null, user);
+      } catch (error) {
+        done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account just ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const parsed = credentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message });
+      }
+
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "That username is taken" });
+      }
+
+      const user = await storage.createUser({ username, password: await hashPassword(password) });
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    passport.authenticate("local", (error: unknown, user: StoredUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Wrong username or password" });
+      }
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy((error) => {
+        if (error) return next(error);
+        res.sendStatus(204);
+      });
+    });
+  });
+
+  app.get("/api/me", requireUser, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  return sessionParser;
+}
@@ -0,0 +1,519 @@
+import type { Server, IncomingMessage } from "http";
+import type { Request, Response, RequestHandler } from "express";
+import type { Duplex } from "stream";
+import { randomInt, randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { ONLINE_SOCKET_PATH } from "@shared/onlineProtocol";
+import type { ClientMessage, GameIntent, ServerMessage } from "@shared/onlineProtocol";
+import type { PublicUser } from "@shared/schema";
+import { createGame, applyAction, checkFlag, rewindTo, timeLeft, type GameState, type GameAction } from "@shared/game/gameCore";
+import type { TimeControl } from "@shared/game/timeControls";
+import { combatRulesSchema, type CombatRules } from "@shared/game/combatRules";
+import { STARTING_POSITION } from "@shared/game/fen";
+import { createSeededRandom, deriveStreamState } from "@shared/game/random";
+import { toGameEvent, settledTurnCount } from "@shared/gameRecords";
+import { storage } from "./storage";
+import { toPublicUser } from "./auth";
+import { rateFinishedGame } from "./ratings";
+import { log } from "./vite";
+
+// Online games. Each room is one game, found by its invite code; a seat
+// belongs to whoever holds its token, so a player can drop and come back
+// on a new connection without losing their side. Players are the logged-in
+// users of the sessions their sockets were opened with.
+
+type Color = "white" | "black";
+
+interface Seat {
+  token: string;
+  user: PublicUser;
+  socket: WebSocket | null;
+}
+
+interface Room {
+  code: string;
+  game: GameState;
+  // The dice are rolled here and the seed stays secret until the game ends
+  seed: number;
+  battleRandomState: number;
+  // The game before each decision either player made, newest last
+  history: { color: Color; game: GameState; battleRandomState: number }[];
+  // Waiting for the other player to accept or decline
+  takebackRequestedBy: Color | null;
+  // The saved record of the game, written one save at a time
+  recordId: number | null;
+  savedPlies: number;
+  pendingSave: Promise<void>;
+  seats: Record<Color, Seat | null>;
+  // Set while nobody is connected
+  abandonTimer: NodeJS.Timeout | null;
+  // Set while a clock is running, to end the game when it runs out
+  flagTimer: NodeJS.Timeout | null;
+}
+
+interface Connection {
+  // Null when the socket was opened without logging in
+  user: PublicUser | null;
+  room: Room | null;
+  color: Color | null;
+  isAlive: boolean;
+}
+
+// Letters and digits that can't be mistaken for each other when read aloud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+// How long a room survives with both players gone
+const ROOM_ABANDON_MS = 30 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+const MAX_CLOCK_MS = 3 * 60 * 60 * 1000;
+const MAX_INCREMENT_MS = 60 * 1000;
+
+const rooms = new Map<string, Room>();
+const connections = new Map<WebSocket, Connection>();
+
+const positionSchema = z.object({
+  row: z.number().int().min(0).max(7),
+  col: z.number().int().min(0).max(7),
+});
+
+const pointsSchema = z.number().int().min(0);
+
+const intentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("move"), from: positionSchema, to: positionSchema }),
+  z.object({ type: z.literal("resolveBattle") }),
+  z.object({ type: z.literal("promote"), pieceType: z.enum(["queen", "rook", "bishop", "knight"]) }),
+  z.object({ type: z.literal("ability"), abilityId: z.string(), from: positionSchema, to: positionSchema }),
+  z.object({
+    type: z.literal("allocate"),
+    pieceId: z.string(),
+    allocation: z.object({ attack: pointsSchema, defense: pointsSchema, maxHealth: pointsSchema }),
+  }),
+  z.object({ type: z.literal("resign") }),
+]);
+
+const clientMessageSchema: z.ZodType<ClientMessage> = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("create"),
+    color: z.enum(["white", "black", "random"]),
+    timeControl: z.object({
+      initialMs: z.number().int().min(1000).max(MAX_CLOCK_MS),
+      incrementMs: z.number().int().min(0).max(MAX_INCREMENT_MS),
+    }).nullable(),
+    combatRules: combatRulesSchema,
+  }),
+  z.object({ type: z.literal("join"), code: z.string() }),
+  z.object({ type: z.literal("resume"), code: z.string(), token: z.string() }),
+  z.object({ type: z.literal("leave") }),
+  z.object({ type: z.literal("intent"), intent: intentSchema }),
+  z.object({ type: z.literal("takeback") }),
+  z.object({ type: z.literal("takebackAnswer"), accept: z.boolean() }),
+]);
+
+export function setupOnlinePlay(httpServer: Server, sessionParser: RequestHandler): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Vite's HMR socket shares this server in development, so only claim our own path
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== ONLINE_SOCKET_PATH) return;
+
+    // The session cookie comes with the upgrade request, so read it like any other request
+    sessionParser(req as Request, {} as Response, () => {
+      loadSessionUser(req as Request)
+        .then((user) => wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, user)))
+        .catch((error) => {
+          log(`couldn't read the session of a new connection: ${error instanceof Error ? error.message : error}`, "online");
+          socket.destroy();
+        });
+    });
+  });
+
+  wss.on("connection", (socket: WebSocket, user: PublicUser | null) => {
+    connections.set(socket, { user, room: null, color: null, isAlive: true });
+
+    socket.on("pong", () => {
+      const connection = connections.get(socket);
+      if (connection) connection.isAlive = true;
+    });
+    socket.on("message", (data) => handleMessage(socket, data.toString()));
+    socket.on("close", () => {
+      leaveSeat(socket);
+      connections.delete(socket);
+    });
+  });
+
+  // Drop connections that stopped answering, so the opponent sees them leave
+  const heartbeat = setInterval(() => {
+    connections.forEach((connection, socket) => {
+      if (!connection.isAlive) {
+        socket.terminate();
+        return;
+      }
+      connection.isAlive = false;
+      socket.ping();
+    });
+  }, HEARTBEAT_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+async function loadSessionUser(req: Request): Promise<PublicUser | null> {
+  const userId = (req.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+  const user = userId === undefined ? undefined : await storage.getUser(userId);
+  return user ? toPublicUser(user) : null;
+}
+
+function handleMessage(socket: WebSocket, data: string): void {
+  let message: ClientMessage;
+  try {
+    const parsed = clientMessageSchema.safeParse(JSON.parse(data));
+    if (!parsed.success) {
+      send(socket, { type: "error", message: "Malformed message", fatal: false });
+      return;
+    }
+    message = parsed.data;
+  } catch {
+    send(socket, { type: "error", message: "Malformed message", fatal: false });
+    return;
+  }
+
+  const user = connections.get(socket)?.user;
+  if (!user && message.type !== "leave") {
+    send(socket, { type: "error", message: "Log in to play online", fatal: true });
+    return;
+  }
+
+  switch (message.type) {
+    case "create":
+      createRoom(
+        socket,
+        user!,
+        message.color === "random" ? (randomInt(2) === 0 ? "white" : "black") : message.color,
+        message.timeControl,
+        message.combatRules,
+      );
+      break;
+    case "join":
+      joinRoom(socket, user!, message.code.trim().toUpperCase());
+      break;
+    case "resume":
+      resumeSeat(socket, user!, message.code.trim().toUpperCase(), message.token);
+      break;
+    case "leave":
+      leaveSeat(socket);
+      break;
+    case "intent":
+    case "takeback":
+    case "takebackAnswer": {
+      const connection = connections.get(socket);
+      if (!connection?.room || !connection.color) {
+        send(socket, { type: "error", message: "You're not in a game", fatal: true });
+        return;
+      }
+
+      const { room, color } = connection;
+      if (message.type === "intent") {
+        applyIntent(socket, room, color, message.intent);
+      } else if (message.type === "takeback") {
+        requestTakeback(socket, room, color);
+      } else {
+        answerTakeback(socket, room, color, message.accept);
+      }
+      break;
+    }
+  }
+}
+
+function applyIntent(socket: WebSocket, room: Room, color: Color, intent: GameIntent): void {
+  if (!room.seats.white || !room.seats.black) {
+    send(socket, { type: "error", message: "Wait for your opponent to join", fatal: false });
+    return;
+  }
+
+  const before = { color, game: room.game, battleRandomState: room.battleRandomState };
+  try {
+    // The sender always acts for their own seat
+    const action = { ...intent, player: color } as GameAction;
+    const random = createSeededRandom(room.battleRandomState);
+    room.game = applyAction(room.game, action, random.next, Date.now());
+    room.battleRandomState = random.getState();
+  } catch (error) {
+    send(socket, { type: "error", message: error instanceof Error ? error.message : String(error), fatal: false });
+    // Put the sender back in sync in case it acted on a stale board
+    sendState(room, color);
+    return;
+  }
+
+  // Dismissing a battle isn't a decision, and a resigned game is over
+  if (intent.type !== "resolveBattle" && intent.type !== "resign") {
+    room.history.push(before);
+  }
+  // Playing on answers a pending takeback with no
+  room.takebackRequestedBy = null;
+  scheduleFlag(room);
+  saveRoom(room);
+  broadcastState(room);
+}
+
+function requestTakeback(socket: WebSocket, room: Room, color: Color): void {
+  if (room.game.gamePhase === "ended") {
+    send(socket, { type: "error", message: "The game is already over", fatal: false });
+    return;
+  }
+  if (!room.history.some((entry) => entry.color === color)) {
+    send(socket, { type: "error", message: "You have nothing to take back", fatal: false });
+    return;
+  }
+
+  room.takebackRequestedBy = color;
+  broadcastState(room);
+}
+
+// Accepting puts the game back to before the requester's last decision,
+// dice included, so the same move rolls the same battle
+function answerTakeback(socket: WebSocket, room: Room, color: Color, accept: boolean): void {
+  const requester = room.takebackRequestedBy;
+  if (!requester || requester === color) {
+    send(socket, { type: "error", message: "There's no takeback to answer", fatal: false });
+    return;
+  }
+
+  room.takebackRequestedBy = null;
+  if (!accept) {
+    const requesterSocket = room.seats[requester]?.socket;
+    if (requesterSocket) {
+      send(requesterSocket, { type: "error", message: "Your opponent declined the takeback", fatal: false });
+    }
+    broadcastState(room);
+    return;
+  }
+
+  const index = room.history.map((entry) => entry.color).lastIndexOf(requester);
+  const entry = room.history[index];
+  room.game = rewindTo(entry.game, room.game, Date.now());
+  // A flag that fell before the answer came in stands
+  if (room.game.gamePhase !== "ended") {
+    room.battleRandomState = entry.battleRandomState;
+    room.history = room.history.slice(0, index);
+    rewindRecord(room, settledTurnCount(room.game));
+  }
+  scheduleFlag(room);
+  saveRoom(room);
+  broadcastState(room);
+}
+
+function createRoom(
+  socket: WebSocket,
+  user: PublicUser,
+  color: Color,
+  timeControl: TimeControl | null,
+  combatRules: CombatRules,
+): void {
+  leaveSeat(socket);
+
+  let code: string;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+  } while (rooms.has(code));
+
+  const seed = randomInt(2 ** 32);
+  const room: Room = {
+    code,
+    game: createGame(STARTING_POSITION, timeControl, combatRules),
+    seed,
+    battleRandomState: deriveStreamState(seed, "battle"),
+    history: [],
+    takebackRequestedBy: null,
+    recordId: null,
+    savedPlies: 0,
+    pendingSave: Promise.resolve(),
+    seats: { white: null, black: null },
+    abandonTimer: null,
+    flagTimer: null,
+  };
+  rooms.set(code, room);
+  log(`room ${code} created`, "online");
+
+  takeSeat(socket, room, color, randomUUID(), user);
+}
+
+function joinRoom(socket: WebSocket, user: PublicUser, code: string): void {
+  const room = rooms.get(code);
+  if (!room) {
+    send(socket, { type: "error", message: `No game with code ${code}`, fatal: true });
+    return;
+  }
+  if (room.game.gamePhase === "ended") {
+    send(socket, { type: "error", message: "That game is already over", fatal: true });
+    return;
+  }
+  // Playing both sides would make a mockery of the ratings
+  const isSeated = (["white", "black"] as const).some(seat => room.seats[seat]?.user.id === user.id);
+  if (connections.get(socket)?.room === room || isSeated) {
+    send(socket, { type: "error", message: "You're already in this game", fatal: false });
+    return;
+  }
+
+  const color = (["white", "black"] as const).find(seat => !room.seats[seat]);
+  if (!color) {
+    send(socket, { type: "error", message: "That game already has two players", fatal: true });
+    return;
+  }
+
+  leaveSeat(socket);
+  takeSeat(socket, room, color, randomUUID(), user);
+}
+
+function resumeSeat(socket: WebSocket, user: PublicUser, code: string, token: string): void {
+  const room = rooms.get(code);
+  const color = room && (["white", "black"] as const)
+    .find(seat => room.seats[seat]?.token === token && room.seats[seat]?.user.id === user.id);
+  if (!room || !color) {
+    send(socket, { type: "error", message: "That game is no longer available", fatal: true });
+    return;
+  }
+
+  // A second tab taking the seat over wins; the old connection is told why it lost it
+  const previous = room.seats[color]!.socket;
+  if (previous && previous !== socket) {
+    send(previous, { type: "error", message: "This game was opened somewhere else", fatal: true });
+    leaveSeat(previous);
+  }
+
+  leaveSeat(socket);
+  takeSeat(socket, room, color, token, user);
+}
+
+function takeSeat(socket: WebSocket, room: Room, color: Color, token: string, user: PublicUser): void {
+  room.seats[color] = { token, user, socket };
+  connections.set(socket, { ...connections.get(socket)!, room, color });
+
+  if (room.abandonTimer) {
+    clearTimeout(room.abandonTimer);
+    room.abandonTimer = null;
+  }
+
+  send(socket, { type: "seated", code: room.code, token, color });
+  broadcastState(room);
+  // The record is started once both players are known
+  if (room.recordId === null) {
+    saveRoom(room);
+  }
+}
+
+// Frees the connection but keeps the seat, so its token can take it back
+function leaveSeat(socket: WebSocket): void {
+  const connection = connections.get(socket);
+  if (!connection?.room || !connection.color) return;
+
+  const { room, color } = connection;
+  connections.set(socket, { ...connection, room: null, color: null });
+
+  const seat = room.seats[color];
+  if (seat?.socket === socket) {
+    seat.socket = null;
+  }
+
+  const isEmpty = !room.seats.white?.socket && !room.seats.black?.socket;
+  if (isEmpty) {
+    room.abandonTimer = setTimeout(() => {
+      if (room.flagTimer) clearTimeout(room.flagTimer);
+      rooms.delete(room.code);
+      log(`room ${room.code} closed`, "online");
+    }, ROOM_ABANDON_MS);
+  } else {
+    broadcastState(room);
+  }
+}
+
+// The clock keeps running while a player is away, so the server calls the
+// flag itself rather than waiting for their next move. Nobody is charged
+// before both seats are taken.
+function scheduleFlag(room: Room): void {
+  if (room.flagTimer) {
+    clearTimeout(room.flagTimer);
+    room.flagTimer = null;
+  }
+  const color = room.game.runningClock;
+  if (!color || !room.seats.white || !room.seats.black) return;
+
+  room.flagTimer = setTimeout(() => {
+    room.flagTimer = null;
+    const game = checkFlag(room.game, Date.now());
+    if (game === room.game) {
+      // Woken a little early
+      scheduleFlag(room);
+      return;
+    }
+    room.game = game;
+    room.takebackRequestedBy = null;
+    log(`room ${room.code}: ${color} ran out of time`, "online");
+    saveRoom(room);
+    broadcastState(room);
+  }, Math.max(0, timeLeft(room.game, color, Date.now())));
+}
+
+function broadcastState(room: Room): void {
+  sendState(room, "white");
+  sendState(room, "black");
+}
+
+function sendState(room: Room, color: Color): void {
+  const socket = room.seats[color]?.socket;
+  if (!socket) return;
+
+  const opponent = room.seats[color === "white" ? "black" : "white"];
+  const seed = room.game.gamePhase === "ended" ? room.seed : null;
+  send(socket, {
+    type: "state",
+    state: { ...room.game, seed },
+    opponentSeated: !!opponent,
+    opponentConnected: !!opponent?.socket,
+    serverTime: Date.now(),
+    takebackRequestedBy: room.takebackRequestedBy,
+  });
+}
+
+// Turns from `ply` on were taken back, so the next save rewrites them
+function rewindRecord(room: Room, ply: number): void {
+  room.pendingSave = room.pendingSave.then(() => {
+    room.savedPlies = Math.min(room.savedPlies, ply);
+  });
+}
+
+// Saves the turns that can no longer change, and the game as it stands. Until
+// the second player sits down, turns wait for the first save.
+function saveRoom(room: Room): void {
+  const { game, seats } = room;
+  const { white, black } = seats;
+  if (!white || !black) return;
+  const snapshot = { game, battleRandomState: room.battleRandomState, aiRandomState: null };
+
+  room.pendingSave = room.pendingSave
+    .then(async () => {
+      if (room.recordId === null) {
+        const record = await storage.createGame(
+          { mode: "online", startPosition: game.startPosition, seed: room.seed, snapshot },
+          [
+            { color: "white", name: white.user.username, userId: white.user.id },
+            { color: "black", name: black.user.username, userId: black.user.id },
+          ],
+        );
+        room.recordId = record.id;
+      }
+
+      const settled = settledTurnCount(game);
+      const events = game.moveHistory
+        .slice(room.savedPlies, settled)
+        .map((move, index) => toGameEvent(move, room.savedPlies + index));
+      const saved = await storage.appendGameEvents(room.recordId, room.savedPlies, events, snapshot);
+      room.savedPlies = Math.max(room.savedPlies, settled);
+      await rateFinishedGame(saved);
+    })
+    .catch((error) => log(`saving room ${room.code} failed: ${error instanceof Error ? error.message : error}`, "online"));
+}
+
+function send(socket: WebSocket, message: ServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
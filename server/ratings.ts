@@ -0,0 +1,63 @@
+import type { GameDetails, GameParticipant, PlayerResult } from "@shared/schema";
+import { STARTING_POSITION } from "@shared/game/fen";
+import { storage } from "./storage";
+
+// Elo ratings. Only online games are rated, since the server plays them out
+// itself; local games are played in the browser, which sends both sides'
+// moves, the seed and the result. Games against the computer still count
+// towards the player's record against that level, unrated. Two people sharing
+// one board aren't recorded at all, since they can't be told apart.
+
+export const INITIAL_RATING = 1200;
+const K_FACTOR = 32;
+
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+export function nextRating(rating: number, opponentRating: number, score: number): number {
+  return Math.round(rating + K_FACTOR * (score - expectedScore(rating, opponentRating)));
+}
+
+// Rates a finished online game. Safe to call more than once: a game only ever
+// counts once. Games from a loaded position aren't rated.
+export async function rateFinishedGame(game: GameDetails): Promise<void> {
+  if (game.mode !== "online" || !isCountable(game)) return;
+
+  const white = game.participants.find((participant) => participant.color === "white");
+  const black = game.participants.find((participant) => participant.color === "black");
+  if (!white?.userId || !black?.userId || white.userId === black.userId) return;
+
+  const current = await storage.getRatings([white.userId, black.userId]);
+  const ratingOf = (userId: number) => current.find((rating) => rating.userId === userId)?.rating ?? INITIAL_RATING;
+
+  const rate = (userId: number, opponentId: number, score: number): PlayerResult =>
+    ({ userId, score, rating: nextRating(ratingOf(userId), ratingOf(opponentId), score) });
+  const whiteScore = scoreOf(game, white);
+  await storage.recordGameOutcome(game.id, [
+    rate(white.userId, black.userId, whiteScore),
+    rate(black.userId, white.userId, 1 - whiteScore),
+  ]);
+}
+
+// Adds a finished game against the computer to the player's record against
+// that level. Like rating, it happens once, and not for loaded positions.
+export async function recordComputerGame(game: GameDetails): Promise<void> {
+  if (game.mode !== "pvc" || !isCountable(game)) return;
+
+  const computer = game.participants.find((participant) => participant.aiDifficulty);
+  const player = game.participants.find((participant) => !participant.aiDifficulty);
+  if (!computer?.aiDifficulty || !player?.userId) return;
+
+  await storage.recordAIResult(game.id, { userId: player.userId, difficulty: computer.aiDifficulty, score: scoreOf(game, player) });
+}
+
+function isCountable(game: GameDetails): boolean {
+  return game.status === "finished" && !game.ratedAt && !!game.result && game.startPosition === STARTING_POSITION;
+}
+
+// 1 for a win, 0.5 for a draw, 0 for a loss
+function scoreOf(game: GameDetails, participant: GameParticipant): number {
+  const whiteScore = game.result === "1-0" ? 1 : game.result === "0-1" ? 0 : 0.5;
+  return participant.color === "white" ? whiteScore : 1 - whiteScore;
+}
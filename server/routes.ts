@@ -1,15 +1,186 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
+import {
+  insertGameSchema,
+  insertGameParticipantSchema,
+  insertGameEventSchema,
+  type GameSummary,
+  type GameDetails,
+} from "@shared/schema";
+import type { GameState } from "@shared/game/gameCore";
+import { combatRulesSchema } from "@shared/game/combatRules";
 import { storage } from "./storage";
+import { setupOnlinePlay } from "./online";
+import { setupAuth, requireUser } from "./auth";
+import { recordComputerGame } from "./ratings";
+import { log } from "./vite";
+
+// Local games run in the browser, so their state is saved as sent; only its shape is checked
+const snapshotSchema = z.object({
+  game: z.object({
+    board: z.array(z.array(z.unknown()).length(8)).length(8),
+    gamePhase: z.enum(["playing", "battle", "promotion", "ended"]),
+    moveHistory: z.array(z.unknown()),
+    combatRules: combatRulesSchema,
+  }).passthrough().transform((game) => game as unknown as GameState),
+  battleRandomState: z.number().int(),
+  aiRandomState: z.number().int().nullable(),
+});
+
+const createGameSchema = insertGameSchema.extend({
+  // Online games are recorded by the server as they're played
+  mode: z.enum(["pvp", "pvc"]),
+  participants: z.array(insertGameParticipantSchema).length(2),
+  snapshot: snapshotSchema,
+});
+
+const appendEventsSchema = z.object({
+  // Where the new turns start; earlier than the saved turns end after a takeback
+  fromPly: z.number().int().min(0).optional(),
+  events: z.array(insertGameEventSchema),
+  snapshot: snapshotSchema,
+});
+
+const listGamesSchema = z.object({
+  status: z.enum(["active", "finished"]).default("finished"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const leaderboardSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const gameIdSchema = z.coerce.number().int().positive();
+
+// An online game's seed would give away its future dice
+function hideSecrets<T extends GameSummary>(game: T): T {
+  return game.mode === "online" && game.status === "active" ? { ...game, seed: null } : game;
+}
+
+function isInvolved(game: GameDetails, userId: number): boolean {
+  return game.userId === userId || game.participants.some((participant) => participant.userId === userId);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+  const sessionParser = setupAuth(app);
+
+  // The player's own games, finished by default; `?status=active` lists games that can be resumed
+  app.get("/api/games", requireUser, async (req, res, next) => {
+    try {
+      const parsed = listGamesSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+      }
+      const games = await storage.listGames({ ...parsed.data, userId: req.user!.id });
+      res.json(games.map(hideSecrets));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/games", requireUser, async (req, res, next) => {
+    try {
+      const parsed = createGameSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid game", errors: parsed.error.flatten() });
+      }
+      const { participants, snapshot, ...game } = parsed.data;
+      const user = req.user!;
+      // Against the computer the human side is the player saving the game; two
+      // people sharing a board can't be told apart
+      const attributed = participants.map((participant) =>
+        game.mode === "pvc" && !participant.aiDifficulty
+          ? { ...participant, name: user.username, userId: user.id }
+          : participant
+      );
+      const created = await storage.createGame({ ...game, snapshot, userId: user.id }, attributed);
+      res.status(201).json(created);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/games/:id", requireUser, async (req, res, next) => {
+    try {
+      const id = gameIdSchema.safeParse(req.params.id);
+      const game = id.success ? await storage.getGame(id.data) : undefined;
+      // Unfinished games are only open to the people playing them
+      if (!game || (game.status === "active" && !isInvolved(game, req.user!.id))) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      // The snapshot holds the dice stream, so it stays on the server until the game ends
+      if (game.mode === "online" && game.status === "active") {
+        return res.status(403).json({ message: "Online games can only be opened once they're over" });
+      }
+      res.json(game);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Saves the turns played since the last save, along with the current state.
+  // Turns that were taken back are replaced.
+  app.post("/api/games/:id/events", requireUser, async (req, res, next) => {
+    try {
+      const parsed = appendEventsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid events", errors: parsed.error.flatten() });
+      }
+
+      const id = gameIdSchema.safeParse(req.params.id);
+      const game = id.success ? await storage.getGame(id.data) : undefined;
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+      if (game.mode === "online") {
+        return res.status(403).json({ message: "Online games are recorded by the server" });
+      }
+      if (game.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the player who saved this game can add to it" });
+      }
+      if (game.status === "finished") {
+        return res.status(409).json({ message: "The game is already over" });
+      }
+
+      const { fromPly = game.events.length, events, snapshot } = parsed.data;
+      const isInOrder = fromPly <= game.events.length && events.every((event, index) => event.ply === fromPly + index);
+      if (!isInOrder) {
+        return res.status(409).json({ message: `Expected turns starting at ply ${game.events.length} or earlier` });
+      }
+
+      const updated = await storage.appendGameEvents(game.id, fromPly, events, snapshot);
+      // Local games aren't rated, since their result is whatever the browser
+      // says, but games against the computer go on the player's record. The
+      // turns are saved either way; a failed record only shows up in the log.
+      await recordComputerGame(updated).catch((error) => log(`recording game ${updated.id} failed: ${error instanceof Error ? error.message : error}`));
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/leaderboard", requireUser, async (req, res, next) => {
+    try {
+      const parsed = leaderboardSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+      }
+      res.json(await storage.getLeaderboard(parsed.data.limit, parsed.data.offset));
+    } catch (error) {
+      next(error);
+    }
+  });
 
   const httpServer = createServer(app);
 
+  // Online games talk over a WebSocket on the same server
+  setupOnlinePlay(httpServer, sessionParser);
+
   return httpServer;
 }
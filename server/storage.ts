@@ -1,21 +1,117 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, count, desc, eq, getTableColumns, gte, inArray, isNull, or, sql } from "drizzle-orm";
+import {
+  users,
+  games,
+  gameParticipants,
+  gameEvents,
+  ratings,
+  aiRecords,
+  type User,
+  type InsertUser,
+  type Game,
+  type InsertGame,
+  type GameParticipant,
+  type InsertGameParticipant,
+  type GameEvent,
+  type InsertGameEvent,
+  type GameSnapshot,
+  type GameSummary,
+  type GameDetails,
+  type Rating,
+  type AIRecord,
+  type PlayerResult,
+  type AIResult,
+  type LeaderboardPage,
+} from "@shared/schema";
+import { gameResult } from "@shared/gameRecords";
+import { connectDatabase, type Database } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
 
+export interface GameListOptions {
+  status?: Game["status"];
+  // Only games this user saved or played in
+  userId?: number;
+  limit: number;
+  offset: number;
+}
+
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  createGame(game: InsertGame, participants: InsertGameParticipant[]): Promise<GameDetails>;
+  getGame(id: number): Promise<GameDetails | undefined>;
+  // Drops any saved turns from ply `fromPly` on, which takebacks leave behind,
+  // then adds `events` after the rest and replaces the snapshot. The game is
+  // marked finished once the snapshot's game has ended.
+  appendGameEvents(id: number, fromPly: number, events: InsertGameEvent[], snapshot: GameSnapshot): Promise<GameDetails>;
+  // Most recently played first
+  listGames(options: GameListOptions): Promise<GameSummary[]>;
+
+  getRatings(userIds: number[]): Promise<Rating[]>;
+  // Stores each player's new rating and adds the result to their records.
+  // Returns false, changing nothing, if the game has already been rated.
+  recordGameOutcome(gameId: number, results: PlayerResult[]): Promise<boolean>;
+  // Adds the result to the player's record against that computer level.
+  // Returns false, changing nothing, if the game has already been counted.
+  recordAIResult(gameId: number, result: AIResult): Promise<boolean>;
+  // Highest rated first
+  getLeaderboard(limit: number, offset: number): Promise<LeaderboardPage>;
+}
+
+// Which of a record's win, loss and draw counters a score adds to
+function resultCounts(score: number) {
+  return { wins: score === 1 ? 1 : 0, losses: score === 0 ? 1 : 0, draws: score === 0.5 ? 1 : 0 };
+}
+
+// Status and result columns that follow from a snapshot
+function snapshotFields(snapshot: GameSnapshot, now: Date) {
+  const ended = gameResult(snapshot.game);
+  return {
+    snapshot,
+    updatedAt: now,
+    status: ended ? "finished" as const : "active" as const,
+    result: ended?.result ?? null,
+    endReason: ended?.endReason ?? null,
+    finishedAt: ended ? now : null,
+  };
 }
 
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
+  private games: Map<number, Game>;
+  private participants: Map<number, GameParticipant[]>;
+  private events: Map<number, GameEvent[]>;
+  private ratings: Map<number, Rating>;
+  private aiRecords: AIRecord[];
   currentId: number;
+  currentGameId: number;
+  currentRowId: number;
 
   constructor() {
     this.users = new Map();
+    this.games = new Map();
+    this.participants = new Map();
+    this.events = new Map();
+    this.ratings = new Map();
+    this.aiRecords = [];
     this.currentId = 1;
+    this.currentGameId = 1;
+    this.currentRowId = 1;
+    // Clears out expired sessions once a day
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +130,323 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async createGame(insertGame: InsertGame, participants: InsertGameParticipant[]): Promise<GameDetails> {
+    const id = this.currentGameId++;
+    const now = new Date();
+    const game: Game = {
+      id,
+      mode: insertGame.mode,
+      userId: insertGame.userId ?? null,
+      startPosition: insertGame.startPosition,
+      seed: insertGame.seed ?? null,
+      createdAt: now,
+      ratedAt: null,
+      ...snapshotFields(insertGame.snapshot, now),
+    };
+    this.games.set(id, game);
+    this.participants.set(id, participants.map((participant) => ({
+      id: this.currentRowId++,
+      gameId: id,
+      color: participant.color,
+      name: participant.name,
+      userId: participant.userId ?? null,
+      aiDifficulty: participant.aiDifficulty ?? null,
+    })));
+    this.events.set(id, []);
+    return (await this.getGame(id))!;
+  }
+
+  async getGame(id: number): Promise<GameDetails | undefined> {
+    const game = this.games.get(id);
+    if (!game) return undefined;
+    return { ...game, participants: this.participants.get(id) ?? [], events: this.events.get(id) ?? [] };
+  }
+
+  async appendGameEvents(id: number, fromPly: number, events: InsertGameEvent[], snapshot: GameSnapshot): Promise<GameDetails> {
+    const game = this.games.get(id);
+    if (!game) {
+      throw new Error(`Game ${id} not found`);
+    }
+
+    const kept = (this.events.get(id) ?? []).filter((event) => event.ply < fromPly);
+    const now = new Date();
+    this.events.set(id, [
+      ...kept,
+      ...events.map((event) => ({
+        ...event,
+        id: this.currentRowId++,
+        gameId: id,
+        promotion: event.promotion ?? null,
+        defender: event.defender ?? null,
+        attackerRoll: event.attackerRoll ?? null,
+        defenderRoll: event.defenderRoll ?? null,
+        damage: event.damage ?? null,
+        battleResult: event.battleResult ?? null,
+        xpAwarded: event.xpAwarded ?? null,
+        ability: event.ability ?? null,
+        abilityEffects: event.abilityEffects ?? null,
+        allocations: event.allocations ?? [],
+        createdAt: now,
+      })),
+    ]);
+    this.games.set(id, { ...game, ...snapshotFields(snapshot, now) });
+    return (await this.getGame(id))!;
+  }
+
+  async listGames({ status, userId, limit, offset }: GameListOptions): Promise<GameSummary[]> {
+    const isInvolved = (game: Game) =>
+      game.userId === userId || (this.participants.get(game.id) ?? []).some((participant) => participant.userId === userId);
+
+    return Array.from(this.games.values())
+      .filter((game) => !status || game.status === status)
+      .filter((game) => userId === undefined || isInvolved(game))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(offset, offset + limit)
+      .map(({ snapshot, ...game }) => ({ ...game, participants: this.participants.get(game.id) ?? [] }));
+  }
+
+  async getRatings(userIds: number[]): Promise<Rating[]> {
+    return userIds.flatMap((userId) => this.ratings.get(userId) ?? []);
+  }
+
+  async recordGameOutcome(gameId: number, results: PlayerResult[]): Promise<boolean> {
+    const game = this.games.get(gameId);
+    if (!game || game.ratedAt) return false;
+
+    const now = new Date();
+    this.games.set(gameId, { ...game, ratedAt: now });
+    results.forEach(({ userId, score, rating }) => {
+      const counts = resultCounts(score);
+      const previous = this.ratings.get(userId);
+      this.ratings.set(userId, {
+        userId,
+        rating,
+        gamesPlayed: (previous?.gamesPlayed ?? 0) + 1,
+        wins: (previous?.wins ?? 0) + counts.wins,
+        losses: (previous?.losses ?? 0) + counts.losses,
+        draws: (previous?.draws ?? 0) + counts.draws,
+        updatedAt: now,
+      });
+    });
+    return true;
+  }
+
+  async recordAIResult(gameId: number, { userId, difficulty, score }: AIResult): Promise<boolean> {
+    const game = this.games.get(gameId);
+    if (!game || game.ratedAt) return false;
+
+    this.games.set(gameId, { ...game, ratedAt: new Date() });
+    const counts = resultCounts(score);
+    let record = this.aiRecords.find((r) => r.userId === userId && r.difficulty === difficulty);
+    if (!record) {
+      record = { id: this.currentRowId++, userId, difficulty, wins: 0, losses: 0, draws: 0 };
+      this.aiRecords.push(record);
+    }
+    record.wins += counts.wins;
+    record.losses += counts.losses;
+    record.draws += counts.draws;
+    return true;
+  }
+
+  async getLeaderboard(limit: number, offset: number): Promise<LeaderboardPage> {
+    const sorted = Array.from(this.ratings.values())
+      .sort((a, b) => b.rating - a.rating || b.gamesPlayed - a.gamesPlayed || a.userId - b.userId);
+
+    return {
+      total: sorted.length,
+      entries: sorted.slice(offset, offset + limit).map(({ updatedAt, ...rating }, index) => ({
+        ...rating,
+        rank: offset + index + 1,
+        username: this.users.get(rating.userId)?.username ?? "?",
+        aiRecords: this.aiRecords
+          .filter((record) => record.userId === rating.userId)
+          .map(({ difficulty, wins, losses, draws }) => ({ difficulty, wins, losses, draws })),
+      })),
+    };
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: Database;
+
+  constructor(connectionString: string) {
+    const { pool, db } = connectDatabase(connectionString);
+    this.db = db;
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createGame(insertGame: InsertGame, participants: InsertGameParticipant[]): Promise<GameDetails> {
+    const id = await this.db.transaction(async (tx) => {
+      const now = new Date();
+      const [game] = await tx.insert(games).values({
+        mode: insertGame.mode,
+        userId: insertGame.userId ?? null,
+        startPosition: insertGame.startPosition,
+        seed: insertGame.seed ?? null,
+        createdAt: now,
+        ...snapshotFields(insertGame.snapshot, now),
+      }).returning({ id: games.id });
+      if (participants.length > 0) {
+        await tx.insert(gameParticipants).values(participants.map((participant) => ({ ...participant, gameId: game.id })));
+      }
+      return game.id;
+    });
+    return (await this.getGame(id))!;
+  }
+
+  async getGame(id: number): Promise<GameDetails | undefined> {
+    const [game] = await this.db.select().from(games).where(eq(games.id, id));
+    if (!game) return undefined;
+
+    const participants = await this.db.select().from(gameParticipants).where(eq(gameParticipants.gameId, id));
+    const events = await this.db.select().from(gameEvents).where(eq(gameEvents.gameId, id)).orderBy(asc(gameEvents.ply));
+    return { ...game, participants, events };
+  }
+
+  async appendGameEvents(id: number, fromPly: number, events: InsertGameEvent[], snapshot: GameSnapshot): Promise<GameDetails> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(gameEvents).where(and(eq(gameEvents.gameId, id), gte(gameEvents.ply, fromPly)));
+      // The unique (game, ply) constraint rejects turns that were already saved
+      if (events.length > 0) {
+        await tx.insert(gameEvents).values(events.map((event) => ({ ...event, gameId: id })));
+      }
+      const updated = await tx.update(games)
+        .set(snapshotFields(snapshot, new Date()))
+        .where(eq(games.id, id))
+        .returning({ id: games.id });
+      if (updated.length === 0) {
+        throw new Error(`Game ${id} not found`);
+      }
+    });
+    return (await this.getGame(id))!;
+  }
+
+  async listGames({ status, userId, limit, offset }: GameListOptions): Promise<GameSummary[]> {
+    const { snapshot, ...summaryColumns } = getTableColumns(games);
+    const involved = userId === undefined ? undefined : or(
+      eq(games.userId, userId),
+      inArray(games.id, this.db.select({ id: gameParticipants.gameId }).from(gameParticipants).where(eq(gameParticipants.userId, userId))),
+    );
+    const rows = await this.db.select(summaryColumns)
+      .from(games)
+      .where(and(status ? eq(games.status, status) : undefined, involved))
+      .orderBy(desc(games.updatedAt))
+      .limit(limit)
+      .offset(offset);
+    if (rows.length === 0) return [];
+
+    const participants = await this.db.select().from(gameParticipants)
+      .where(inArray(gameParticipants.gameId, rows.map((row) => row.id)));
+    return rows.map((row) => ({ ...row, participants: participants.filter((participant) => participant.gameId === row.id) }));
+  }
+
+  async getRatings(userIds: number[]): Promise<Rating[]> {
+    if (userIds.length === 0) return [];
+    return this.db.select().from(ratings).where(inArray(ratings.userId, userIds));
+  }
+
+  async recordGameOutcome(gameId: number, results: PlayerResult[]): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const now = new Date();
+      const claimed = await tx.update(games)
+        .set({ ratedAt: now })
+        .where(and(eq(games.id, gameId), isNull(games.ratedAt)))
+        .returning({ id: games.id });
+      if (claimed.length === 0) return false;
+
+      for (const { userId, score, rating } of results) {
+        const counts = resultCounts(score);
+        await tx.insert(ratings)
+          .values({ userId, rating, gamesPlayed: 1, ...counts, updatedAt: now })
+          .onConflictDoUpdate({
+            target: ratings.userId,
+            set: {
+              rating,
+              gamesPlayed: sql`${ratings.gamesPlayed} + 1`,
+              wins: sql`${ratings.wins} + ${counts.wins}`,
+              losses: sql`${ratings.losses} + ${counts.losses}`,
+              draws: sql`${ratings.draws} + ${counts.draws}`,
+              updatedAt: now,
+            },
+          });
+      }
+      return true;
+    });
+  }
+
+  async recordAIResult(gameId: number, { userId, difficulty, score }: AIResult): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const claimed = await tx.update(games)
+        .set({ ratedAt: new Date() })
+        .where(and(eq(games.id, gameId), isNull(games.ratedAt)))
+        .returning({ id: games.id });
+      if (claimed.length === 0) return false;
+
+      const counts = resultCounts(score);
+      await tx.insert(aiRecords)
+        .values({ userId, difficulty, ...counts })
+        .onConflictDoUpdate({
+          target: [aiRecords.userId, aiRecords.difficulty],
+          set: {
+            wins: sql`${aiRecords.wins} + ${counts.wins}`,
+            losses: sql`${aiRecords.losses} + ${counts.losses}`,
+            draws: sql`${aiRecords.draws} + ${counts.draws}`,
+          },
+        });
+      return true;
+    });
+  }
+
+  async getLeaderboard(limit: number, offset: number): Promise<LeaderboardPage> {
+    const rows = await this.db.select({
+      userId: ratings.userId,
+      rating: ratings.rating,
+      gamesPlayed: ratings.gamesPlayed,
+      wins: ratings.wins,
+      losses: ratings.losses,
+      draws: ratings.draws,
+      username: users.username,
+    })
+      .from(ratings)
+      .innerJoin(users, eq(users.id, ratings.userId))
+      .orderBy(desc(ratings.rating), desc(ratings.gamesPlayed), asc(ratings.userId))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await this.db.select({ total: count() }).from(ratings);
+
+    const records = rows.length === 0 ? [] : await this.db.select().from(aiRecords)
+      .where(inArray(aiRecords.userId, rows.map((row) => row.userId)));
+    return {
+      total,
+      entries: rows.map((row, index) => ({
+        ...row,
+        rank: offset + index + 1,
+        aiRecords: records
+          .filter((record) => record.userId === row.userId)
+          .map(({ difficulty, wins, losses, draws }) => ({ difficulty, wins, losses, draws })),
+      })),
+    };
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when a database is configured, otherwise games last as long as the process
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(process.env.DATABASE_URL)
+  : new MemStorage();
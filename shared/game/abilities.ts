@@ -0,0 +1,207 @@
+import { AbilityEffect, ChessPiece, Position } from "./types";
+import { AbilityDefinition, getPieceDefinition } from "./pieceDefinitions";
+import { getEffectiveStats, getMaxHealth } from "./pieceData";
+import { getPiecesInReach, isInCheck } from "./chessLogic";
+import { applyStatuses, getStatus, isStunned } from "./statusEffects";
+
+// Signature abilities. What each one targets, costs, does and how long it
+// takes to come back all come from pieces.json; this module reads those rules.
+// Using an ability takes the whole turn and nothing moves, so an ability can
+// never answer a check, a stunned piece can't use one, and one is only offered
+// when its effect or statuses would change something.
+
+type Board = (ChessPiece | null)[][];
+
+export interface AbilityUse {
+  from: Position;
+  to: Position;
+  abilityId: string;
+}
+
+export function getPieceAbility(piece: ChessPiece, abilityId: string): AbilityDefinition | undefined {
+  return getPieceDefinition(piece.type).abilities.find(ability => ability.id === abilityId);
+}
+
+// The owner's turns left before the ability can be used again
+export function getCooldown(piece: ChessPiece, abilityId: string): number {
+  return piece.cooldowns?.[abilityId] ?? 0;
+}
+
+// Why the piece on `position` can't use the ability right now, or null if it
+// can use it on at least one target
+export function abilityUnavailableReason(board: Board, position: Position, abilityId: string): string | null {
+  const piece = board[position.row][position.col];
+  const ability = piece && getPieceAbility(piece, abilityId);
+  if (!piece || !ability) return 'That piece has no such ability';
+
+  if (isStunned(piece)) return `The ${piece.type} is stunned`;
+  const cooldown = getCooldown(piece, abilityId);
+  if (cooldown > 0) return `${ability.name} is ready in ${cooldown} turn${cooldown === 1 ? '' : 's'}`;
+  if (piece.health <= ability.cost.health) return `${ability.name} needs more than ${ability.cost.health} HP`;
+  if (isInCheck(board, piece.color)) return "Abilities can't answer a check";
+  if (findTargets(board, position, piece, ability).length === 0) return `Nothing for ${ability.name} to affect`;
+  return null;
+}
+
+// Squares the ability can be aimed at, with the check test last since it's
+// the most expensive
+export function getAbilityTargets(board: Board, position: Position, abilityId: string): Position[] {
+  const piece = board[position.row][position.col];
+  if (!piece) return [];
+
+  const targets = findReadyTargets(board, position, piece, abilityId);
+  return targets.length > 0 && !isInCheck(board, piece.color) ? targets : [];
+}
+
+// Every ability `color` could use this turn, testing for check only once;
+// the AI asks this at every position it searches
+export function getAbilityUses(board: Board, color: 'white' | 'black'): AbilityUse[] {
+  const uses: AbilityUse[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== color) continue;
+
+      getPieceDefinition(piece.type).abilities.forEach(({ id }) => {
+        findReadyTargets(board, { row, col }, piece, id).forEach(to => uses.push({ from: { row, col }, to, abilityId: id }));
+      });
+    }
+  }
+  return uses.length > 0 && !isInCheck(board, color) ? uses : [];
+}
+
+// Uses the ability of the piece on `from` on the square `to`, paying its cost,
+// applying its statuses and starting its cooldown. Throws when that isn't allowed.
+export function applyAbility(
+  board: Board,
+  from: Position,
+  to: Position,
+  abilityId: string
+): { board: Board; effects: AbilityEffect[] } {
+  if (!getAbilityTargets(board, from, abilityId).some(square => square.row === to.row && square.col === to.col)) {
+    throw new Error(abilityUnavailableReason(board, from, abilityId) ?? 'Invalid target');
+  }
+  return resolveAbility(board, from, to, abilityId);
+}
+
+// applyAbility without checking the use is allowed, for uses that are known
+// to be, such as those from getAbilityUses
+export function resolveAbility(
+  board: Board,
+  from: Position,
+  to: Position,
+  abilityId: string
+): { board: Board; effects: AbilityEffect[] } {
+  const user = board[from.row][from.col]!;
+  const ability = getPieceAbility(user, abilityId)!;
+  const newBoard = board.map(row => [...row]);
+  newBoard[from.row][from.col] = { ...user, health: user.health - ability.cost.health };
+
+  const effects: AbilityEffect[] = [];
+  getAffectedSquares(newBoard, to, ability).forEach(square => {
+    const target = newBoard[square.row][square.col]!;
+    const amount = getEffectAmount(user, target, ability);
+    const afflicted = applyStatuses(target, ability.statuses ?? []);
+    if (amount === 0 && afflicted === target) return;
+
+    newBoard[square.row][square.col] = ability.effect.kind === 'grantPoints'
+      ? { ...afflicted, unspentPoints: afflicted.unspentPoints + amount }
+      : { ...afflicted, health: afflicted.health + (ability.effect.kind === 'damage' ? -amount : amount) };
+    // Statuses left as they were (by immunity or stacking) aren't listed
+    const statuses = (ability.statuses ?? [])
+      .map(grant => grant.status)
+      .filter(status => getStatus(afflicted, status) !== getStatus(target, status));
+    effects.push(statuses.length > 0 ? { square, piece: target.type, amount, statuses } : { square, piece: target.type, amount });
+  });
+
+  if (ability.cooldown > 0) {
+    const used = newBoard[from.row][from.col]!;
+    newBoard[from.row][from.col] = { ...used, cooldowns: { ...used.cooldowns, [abilityId]: ability.cooldown } };
+  }
+
+  return { board: newBoard, effects };
+}
+
+// A turn of `color`'s begins: its pieces' abilities come a turn closer
+export function tickCooldowns(board: Board, color: 'white' | 'black'): Board {
+  return board.map(row => row.map(piece => {
+    if (!piece || piece.color !== color || !piece.cooldowns) return piece;
+
+    const remaining = Object.entries(piece.cooldowns)
+      .map(([id, turns]) => [id, turns - 1] as const)
+      .filter(([, turns]) => turns > 0);
+    const { cooldowns, ...rest } = piece;
+    return remaining.length > 0 ? { ...rest, cooldowns: Object.fromEntries(remaining) } : rest;
+  }));
+}
+
+// Targets if the piece's ability is off cooldown, affordable and the piece
+// isn't stunned; the check test is left to the caller
+function findReadyTargets(board: Board, position: Position, piece: ChessPiece, abilityId: string): Position[] {
+  const ability = getPieceAbility(piece, abilityId);
+  if (!ability || getCooldown(piece, abilityId) > 0 || piece.health <= ability.cost.health || isStunned(piece)) return [];
+  return findTargets(board, position, piece, ability);
+}
+
+function findTargets(board: Board, position: Position, piece: ChessPiece, ability: AbilityDefinition): Position[] {
+  const { target } = ability;
+  let candidates: Position[];
+
+  if (target.side === 'self') {
+    candidates = [position];
+  } else {
+    const squares = target.reach === 'movement'
+      ? getPiecesInReach(board, position)
+      : squaresWithin(position, target.reach).filter(square => board[square.row][square.col]);
+    candidates = squares.filter(square => {
+      const other = board[square.row][square.col]!;
+      return target.side === 'ally' ? other.color === piece.color : other.color !== piece.color;
+    });
+  }
+
+  // Only squares where the ability would change something
+  return candidates.filter(square => getAffectedSquares(board, square, ability).some(affected => {
+    const target = board[affected.row][affected.col]!;
+    return getEffectAmount(piece, target, ability) > 0 || applyStatuses(target, ability.statuses ?? []) !== target;
+  }));
+}
+
+// The target and, for area abilities, its allies around it
+function getAffectedSquares(board: Board, target: Position, ability: AbilityDefinition): Position[] {
+  const { area } = ability;
+  if (!area) return [target];
+
+  const targetPiece = board[target.row][target.col]!;
+  const neighbours = squaresWithin(target, area.radius).filter(square => {
+    const piece = board[square.row][square.col];
+    return !!piece && piece.color === targetPiece.color && (!area.types || area.types.includes(piece.type));
+  });
+  return [target, ...neighbours];
+}
+
+function getEffectAmount(user: ChessPiece, target: ChessPiece, ability: AbilityDefinition): number {
+  const { effect } = ability;
+
+  switch (effect.kind) {
+    case 'heal': {
+      const maxHealth = getMaxHealth(target);
+      const percent = Math.min(effect.percent + (user.level - 1) * effect.percentPerLevel, effect.maxPercent);
+      return Math.min(maxHealth - target.health, Math.floor(maxHealth * percent));
+    }
+    case 'damage':
+      return Math.min(target.health - 1, Math.max(1, Math.round(getEffectiveStats(user).attack * effect.attackRatio)));
+    case 'grantPoints':
+      return effect.points;
+  }
+}
+
+// Squares other than `center` at most `radius` steps away in any direction
+function squaresWithin(center: Position, radius: number): Position[] {
+  const squares: Position[] = [];
+  for (let row = Math.max(0, center.row - radius); row <= Math.min(7, center.row + radius); row++) {
+    for (let col = Math.max(0, center.col - radius); col <= Math.min(7, center.col + radius); col++) {
+      if (row !== center.row || col !== center.col) squares.push({ row, col });
+    }
+  }
+  return squares;
+}
@@ -0,0 +1,327 @@
+import { ChessPiece } from "./types";
+import { getEffectiveStats } from "./pieceData";
+import { getPieceDefinition } from "./pieceDefinitions";
+import { applyStatuses } from "./statusEffects";
+import { RandomSource, rollD20 } from "./random";
+import { ADVANTAGE_LEVEL_GAP, CombatRules, CRITICAL_MULTIPLIER, FUMBLE_DEFENSE_ROLL, rollsDice } from "./combatRules";
+
+export type RollEdge = 'advantage' | 'disadvantage' | null;
+
+// One side's roll, spelled out
+export interface RollBreakdown {
+  // Every die thrown: two with an edge, none in modes without dice
+  dice: number[];
+  // The die that counts, or 0 when nothing was rolled
+  roll: number;
+  edge: RollEdge;
+  // The attacker's attack or the defender's defense
+  stat: number;
+  total: number;
+}
+
+// Why a battle went the way it did, for the battle screen
+export interface BattleBreakdown {
+  attack: RollBreakdown;
+  defense: RollBreakdown;
+  critical: boolean;
+  fumble: boolean;
+  // Damage before a critical hit multiplied it
+  baseDamage: number;
+  counterDamage: number;
+  counterReason: 'fumble' | 'roll_gap' | 'attrition' | null;
+}
+
+export interface BattleResult {
+  attacker: ChessPiece;
+  defender: ChessPiece;
+  // The dice that counted, after advantage or disadvantage; 0 when the combat
+  // mode rolls none
+  attackerRoll: number;
+  defenderRoll: number;
+  damage: number;
+  result: 'attacker_wins' | 'defender_wins' | 'both_survive';
+  breakdown: BattleBreakdown;
+}
+
+// Which side, if either, is far enough ahead in levels to roll with advantage
+export function getRollEdges(
+  attacker: ChessPiece,
+  defender: ChessPiece,
+  rules: CombatRules
+): { attacker: RollEdge; defender: RollEdge } {
+  const gap = attacker.level - defender.level;
+  if (!rollsDice(rules) || !rules.advantage || Math.abs(gap) < ADVANTAGE_LEVEL_GAP) return { attacker: null, defender: null };
+  return gap > 0
+    ? { attacker: 'advantage', defender: 'disadvantage' }
+    : { attacker: 'disadvantage', defender: 'advantage' };
+}
+
+export function resolveBattle(attacker: ChessPiece, defender: ChessPiece, random: RandomSource, rules: CombatRules): BattleResult {
+  if (!rollsDice(rules)) {
+    return calculateBattleResult(attacker, defender, 0, 0, rules);
+  }
+
+  // Roll dice (1-20) for both pieces, the attacker's first
+  const edges = getRollEdges(attacker, defender, rules);
+  const attackerDice = rollDice(random, edges.attacker);
+  const defenderDice = rollDice(random, edges.defender);
+
+  const battle = calculateBattleResult(attacker, defender, keptRoll(attackerDice, edges.attacker), keptRoll(defenderDice, edges.defender), rules);
+  // Show the dice that were set aside too
+  battle.breakdown.attack.dice = attackerDice;
+  battle.breakdown.defense.dice = defenderDice;
+  return battle;
+}
+
+// The battle these rolls produce, given the dice that counted; the rolls are
+// ignored in modes without dice. A survivor wounded by the other side also
+// comes away with that piece's on-hit statuses.
+export function calculateBattleResult(
+  attacker: ChessPiece,
+  defender: ChessPiece,
+  attackerDie: number,
+  defenderDie: number,
+  rules: CombatRules
+): BattleResult {
+  const rolled = rollsDice(rules);
+  const attackerRoll = rolled ? attackerDie : 0;
+  const defenderRoll = rolled ? defenderDie : 0;
+  const { result, damage, attackerHealth, defenderHealth, ...outcome } = calculateHealthOutcome(attacker, defender, attackerRoll, defenderRoll, rules);
+  const edges = getRollEdges(attacker, defender, rules);
+  const attackStat = getEffectiveStats(attacker).attack;
+  const defenseStat = getEffectiveStats(defender).defense;
+  
+  // Create updated pieces with correct health values
+  let updatedAttacker: ChessPiece = { ...attacker, health: attackerHealth };
+  let updatedDefender: ChessPiece = { ...defender, health: defenderHealth };
+  if (defenderHealth > 0 && defenderHealth < defender.health) {
+    updatedDefender = applyStatuses(updatedDefender, getPieceDefinition(attacker.type).onHit);
+  }
+  if (attackerHealth > 0 && attackerHealth < attacker.health) {
+    updatedAttacker = applyStatuses(updatedAttacker, getPieceDefinition(defender.type).onHit);
+  }
+  
+  return {
+    attacker: updatedAttacker,
+    defender: updatedDefender,
+    attackerRoll,
+    defenderRoll,
+    damage,
+    result,
+    breakdown: {
+      attack: { dice: rolled ? [attackerRoll] : [], roll: attackerRoll, edge: edges.attacker, stat: attackStat, total: attackStat + attackerRoll },
+      defense: { dice: rolled ? [defenderRoll] : [], roll: defenderRoll, edge: edges.defender, stat: defenseStat, total: defenseStat + defenderRoll },
+      ...outcome
+    }
+  };
+}
+
+interface HealthOutcome extends Omit<BattleBreakdown, 'attack' | 'defense'> {
+  result: BattleResult['result'];
+  damage: number;
+  attackerHealth: number;
+  defenderHealth: number;
+}
+
+// The battle's health changes alone, which is all the odds below need, so no
+// pieces are copied. Without dice both rolls are 0, which leaves plain attack
+// against defense.
+function calculateHealthOutcome(
+  attacker: ChessPiece,
+  defender: ChessPiece,
+  attackerRoll: number,
+  defenderRoll: number,
+  rules: CombatRules
+): HealthOutcome {
+  if (rules.mode === 'classic') {
+    // The capture can't fail
+    return {
+      result: 'attacker_wins',
+      damage: defender.health,
+      attackerHealth: attacker.health,
+      defenderHealth: 0,
+      critical: false,
+      fumble: false,
+      baseDamage: defender.health,
+      counterDamage: 0,
+      counterReason: null
+    };
+  }
+
+  const attackerStats = getEffectiveStats(attacker);
+  const defenderStats = getEffectiveStats(defender);
+  
+  // Calculate effective attack and defense
+  const effectiveAttack = attackerStats.attack + attackerRoll;
+  const effectiveDefense = defenderStats.defense + defenderRoll;
+  
+  // A fumble misses outright; a critical hit always lands, multiplied
+  const fumble = rules.fumbles && attackerRoll === 1;
+  const critical = rules.criticalHits && attackerRoll === 20;
+  const baseDamage = fumble ? 0 : Math.max(1, effectiveAttack - effectiveDefense);
+  const damage = critical ? baseDamage * CRITICAL_MULTIPLIER : baseDamage;
+  
+  // Apply damage to defender
+  const newDefenderHealth = Math.max(0, defender.health - damage);
+  
+  // In attrition the defender always strikes back, with its attack and roll
+  // against the attacker's defense and roll. Otherwise a defender that
+  // survives may: for free after a fumble, or under the roll-gap rule when it
+  // badly outrolls the attacker.
+  let counterDamage = 0;
+  let counterReason: BattleBreakdown['counterReason'] = null;
+  if (rules.mode === 'attrition') {
+    counterDamage = Math.max(1, defenderStats.attack + defenderRoll - attackerStats.defense - attackerRoll);
+    counterReason = 'attrition';
+  } else if (newDefenderHealth > 0) {
+    if (fumble) {
+      counterDamage = Math.max(1, defenderStats.attack + defenderRoll - attackerStats.defense - FUMBLE_DEFENSE_ROLL);
+      counterReason = 'fumble';
+    } else if (rules.rollGapCounter && defenderRoll - attackerRoll - 5 > 0) {
+      counterDamage = defenderRoll - attackerRoll - 5;
+      counterReason = 'roll_gap';
+    }
+  }
+  
+  let result: BattleResult['result'];
+  let attackerHealth = attacker.health; // Keep attacker health unchanged by default
+  
+  if (newDefenderHealth <= 0) {
+    // Defender is defeated - attacker wins, and its blow landed first, so any
+    // counter can't finish it
+    result = 'attacker_wins';
+    attackerHealth = Math.max(1, attackerHealth - counterDamage);
+  } else if (counterDamage >= attacker.health) {
+    // The defender's counter-attack destroys the attacker
+    result = 'defender_wins';
+    attackerHealth = 0;
+  } else {
+    // Both survive, the attacker wounded by any counter
+    result = 'both_survive';
+    attackerHealth -= counterDamage;
+  }
+  
+  return {
+    result,
+    damage,
+    attackerHealth,
+    defenderHealth: newDefenderHealth,
+    critical,
+    fumble,
+    baseDamage,
+    counterDamage,
+    counterReason
+  };
+}
+
+function rollDice(random: RandomSource, edge: RollEdge): number[] {
+  return edge ? [rollD20(random), rollD20(random)] : [rollD20(random)];
+}
+
+function keptRoll(dice: number[], edge: RollEdge): number {
+  return edge === 'disadvantage' ? Math.min(...dice) : Math.max(...dice);
+}
+
+// What the die that counts can show, or just 0 when nothing is rolled
+const D20_FACES = Array.from({ length: 20 }, (_, index) => index + 1);
+const NO_ROLL = [0];
+
+function dieFaces(rules: CombatRules): number[] {
+  return rollsDice(rules) ? D20_FACES : NO_ROLL;
+}
+
+// How likely the die that counts is to show `roll`: 1 in 20 normally, higher
+// rolls likelier with advantage and lower ones with disadvantage
+function rollChance(roll: number, edge: RollEdge): number {
+  if (roll === 0) return 1;
+  if (edge === 'advantage') return (2 * roll - 1) / 400;
+  if (edge === 'disadvantage') return (41 - 2 * roll) / 400;
+  return 1 / 20;
+}
+
+// Every result the dice can produce for this pairing, found by trying all 400
+// combinations of the dice that count (or the single battle without dice)
+export function getPossibleBattleResults(attacker: ChessPiece, defender: ChessPiece, rules: CombatRules): BattleResult['result'][] {
+  const results = new Set<BattleResult['result']>();
+  const faces = dieFaces(rules);
+  
+  for (const attackerRoll of faces) {
+    for (const defenderRoll of faces) {
+      results.add(calculateHealthOutcome(attacker, defender, attackerRoll, defenderRoll, rules).result);
+      if (results.size === 3) return Array.from(results);
+    }
+  }
+  
+  return Array.from(results);
+}
+
+export interface BattleOdds {
+  attackerWins: number;
+  bothSurvive: number;
+  defenderWins: number;
+  // Average health each side loses
+  expectedDamage: number;
+  expectedCounterDamage: number;
+}
+
+// Exact odds for a capture, from all 400 combinations of the dice that count,
+// each weighted by how likely advantage or disadvantage makes it
+export function calculateBattleOdds(attacker: ChessPiece, defender: ChessPiece, rules: CombatRules): BattleOdds {
+  const edges = getRollEdges(attacker, defender, rules);
+  const faces = dieFaces(rules);
+  const odds = { attacker_wins: 0, both_survive: 0, defender_wins: 0 };
+  let totalDamage = 0;
+  let totalCounterDamage = 0;
+  
+  for (const attackerRoll of faces) {
+    for (const defenderRoll of faces) {
+      const chance = rollChance(attackerRoll, edges.attacker) * rollChance(defenderRoll, edges.defender);
+      const battle = calculateHealthOutcome(attacker, defender, attackerRoll, defenderRoll, rules);
+      odds[battle.result] += chance;
+      totalDamage += chance * (defender.health - battle.defenderHealth);
+      totalCounterDamage += chance * (attacker.health - battle.attackerHealth);
+    }
+  }
+  
+  return {
+    attackerWins: odds.attacker_wins,
+    bothSurvive: odds.both_survive,
+    defenderWins: odds.defender_wins,
+    expectedDamage: totalDamage,
+    expectedCounterDamage: totalCounterDamage
+  };
+}
+
+export interface BattleOutcome {
+  result: BattleResult['result'];
+  probability: number;
+  // Average health each piece is left with over the roll pairs giving this result
+  attackerHealth: number;
+  defenderHealth: number;
+}
+
+// The battle collapsed to its three possible results, for the AI's chance nodes
+export function getBattleOutcomeDistribution(attacker: ChessPiece, defender: ChessPiece, rules: CombatRules): BattleOutcome[] {
+  const edges = getRollEdges(attacker, defender, rules);
+  const faces = dieFaces(rules);
+  const totals = new Map<BattleResult['result'], { probability: number; attackerHealth: number; defenderHealth: number }>();
+  
+  for (const attackerRoll of faces) {
+    for (const defenderRoll of faces) {
+      const chance = rollChance(attackerRoll, edges.attacker) * rollChance(defenderRoll, edges.defender);
+      const battle = calculateHealthOutcome(attacker, defender, attackerRoll, defenderRoll, rules);
+      const total = totals.get(battle.result) ?? { probability: 0, attackerHealth: 0, defenderHealth: 0 };
+      total.probability += chance;
+      total.attackerHealth += chance * battle.attackerHealth;
+      total.defenderHealth += chance * battle.defenderHealth;
+      totals.set(battle.result, total);
+    }
+  }
+  
+  return Array.from(totals.entries()).map(([result, total]) => ({
+    result,
+    probability: total.probability,
+    attackerHealth: total.attackerHealth / total.probability,
+    defenderHealth: total.defenderHealth / total.probability
+  }));
+}
@@ -0,0 +1,342 @@
+import { ChessPiece, Position } from "./types";
+import { getPieceDefinition, PieceMovement } from "./pieceDefinitions";
+import { getPossibleBattleResults } from "./battleSystem";
+import { isStunned } from "./statusEffects";
+import { getAbilityUses } from "./abilities";
+import { CombatRules, DEFAULT_COMBAT_RULES } from "./combatRules";
+
+// How each piece moves comes from its definition; castling, en passant and
+// promotion are rules of the king and pawn themselves. A stunned piece can't
+// move at all, though it still attacks the squares around it for check.
+export function getValidMoves(
+  board: (ChessPiece | null)[][],
+  position: Position,
+  enPassantTarget: Position | null = null
+): Position[] {
+  const piece = board[position.row][position.col];
+  if (!piece || isStunned(piece)) return [];
+
+  const { movement } = getPieceDefinition(piece.type);
+  const moves = movement.kind === 'pawn'
+    ? getPawnMoves(board, position, piece.color, enPassantTarget)
+    : getPatternMoves(board, position, piece.color, movement);
+  return piece.type === 'king' ? [...moves, ...getCastlingMoves(board, position, piece)] : moves;
+}
+
+function isValidPosition(row: number, col: number): boolean {
+  return row >= 0 && row < 8 && col >= 0 && col < 8;
+}
+
+function getPawnMoves(board: (ChessPiece | null)[][], position: Position, color: 'white' | 'black', enPassantTarget: Position | null): Position[] {
+  const moves: Position[] = [];
+  const { row, col } = position;
+  const direction = color === 'white' ? -1 : 1;
+  const startRow = color === 'white' ? 6 : 1;
+
+  // Move forward one square
+  if (isValidPosition(row + direction, col) && !board[row + direction][col]) {
+    moves.push({ row: row + direction, col });
+
+    // Move forward two squares from starting position
+    if (row === startRow && !board[row + 2 * direction][col]) {
+      moves.push({ row: row + 2 * direction, col });
+    }
+  }
+
+  // Capture diagonally
+  const capturePositions = [
+    { row: row + direction, col: col - 1 },
+    { row: row + direction, col: col + 1 }
+  ];
+
+  capturePositions.forEach(pos => {
+    if (isValidPosition(pos.row, pos.col)) {
+      const targetPiece = board[pos.row][pos.col];
+      if (targetPiece && targetPiece.color !== color) {
+        moves.push(pos);
+      } else if (getEnPassantVictim(board, position, pos, enPassantTarget)) {
+        moves.push(pos);
+      }
+    }
+  });
+
+  return moves;
+}
+
+// The square of the pawn an en passant capture battles, which is beside the
+// attacker rather than on the destination square
+export function getEnPassantVictim(
+  board: (ChessPiece | null)[][],
+  from: Position,
+  to: Position,
+  enPassantTarget: Position | null
+): Position | null {
+  const piece = board[from.row][from.col];
+  if (!piece || piece.type !== 'pawn' || !enPassantTarget) return null;
+  if (to.row !== enPassantTarget.row || to.col !== enPassantTarget.col || to.col === from.col) return null;
+
+  const victim = board[from.row][to.col];
+  if (!victim || victim.type !== 'pawn' || victim.color === piece.color) return null;
+
+  return { row: from.row, col: to.col };
+}
+
+// The square a pawn skips over with a double step, or null for any other move
+export function getDoubleStepTarget(piece: ChessPiece, from: Position, to: Position): Position | null {
+  if (piece.type !== 'pawn' || Math.abs(to.row - from.row) !== 2) return null;
+  return { row: (from.row + to.row) / 2, col: from.col };
+}
+
+// Squares reached along the movement's directions: one jump each for 'step',
+// as far as the board allows for 'slide'. Moves end on the first piece in the
+// way, capturing it if it's an enemy.
+function getPatternMoves(
+  board: (ChessPiece | null)[][],
+  position: Position,
+  color: 'white' | 'black',
+  movement: Exclude<PieceMovement, { kind: 'pawn' }>
+): Position[] {
+  const moves: Position[] = [];
+  const reach = movement.kind === 'slide' ? 7 : 1;
+
+  movement.directions.forEach(([dRow, dCol]) => {
+    for (let i = 1; i <= reach; i++) {
+      const newRow = position.row + i * dRow;
+      const newCol = position.col + i * dCol;
+
+      if (!isValidPosition(newRow, newCol)) break;
+
+      const targetPiece = board[newRow][newCol];
+      if (!targetPiece) {
+        moves.push({ row: newRow, col: newCol });
+      } else {
+        if (targetPiece.color !== color) {
+          moves.push({ row: newRow, col: newCol });
+        }
+        break;
+      }
+    }
+  });
+
+  return moves;
+}
+
+// The first piece, of either side, along each line the piece moves: the
+// squares a pawn captures on, the squares a stepping piece lands on, or the
+// first piece in each direction a sliding piece could see
+export function getPiecesInReach(board: (ChessPiece | null)[][], position: Position): Position[] {
+  const piece = board[position.row][position.col];
+  if (!piece) return [];
+
+  const { movement } = getPieceDefinition(piece.type);
+  const lines = movement.kind === 'pawn'
+    ? [[piece.color === 'white' ? -1 : 1, -1], [piece.color === 'white' ? -1 : 1, 1]]
+    : movement.directions;
+  const reach = movement.kind === 'slide' ? 7 : 1;
+  const squares: Position[] = [];
+
+  lines.forEach(([dRow, dCol]) => {
+    for (let i = 1; i <= reach; i++) {
+      const row = position.row + i * dRow;
+      const col = position.col + i * dCol;
+      if (!isValidPosition(row, col)) break;
+      if (board[row][col]) {
+        squares.push({ row, col });
+        break;
+      }
+    }
+  });
+
+  return squares;
+}
+
+function getCastlingMoves(board: (ChessPiece | null)[][], position: Position, king: ChessPiece): Position[] {
+  const moves: Position[] = [];
+  const homeRow = king.color === 'white' ? 7 : 0;
+  if (king.hasMoved || position.row !== homeRow || position.col !== 4) return moves;
+
+  const opponentColor = king.color === 'white' ? 'black' : 'white';
+  if (isSquareAttacked(board, position, opponentColor)) return moves;
+
+  const sides = [
+    { rookCol: 7, emptyCols: [5, 6], kingPath: [5, 6] },
+    { rookCol: 0, emptyCols: [1, 2, 3], kingPath: [3, 2] }
+  ];
+
+  sides.forEach(({ rookCol, emptyCols, kingPath }) => {
+    const rook = board[homeRow][rookCol];
+    if (!rook || rook.type !== 'rook' || rook.color !== king.color || rook.hasMoved || isStunned(rook)) return;
+    if (emptyCols.some(col => board[homeRow][col])) return;
+    // The king may neither pass through nor land on an attacked square
+    if (kingPath.some(col => isSquareAttacked(board, { row: homeRow, col }, opponentColor))) return;
+
+    moves.push({ row: homeRow, col: kingPath[kingPath.length - 1] });
+  });
+
+  return moves;
+}
+
+export function isCastlingMove(piece: ChessPiece, from: Position, to: Position): boolean {
+  return piece.type === 'king' && from.row === to.row && Math.abs(to.col - from.col) === 2;
+}
+
+export function isPromotionSquare(piece: ChessPiece, position: Position): boolean {
+  return piece.type === 'pawn' && position.row === (piece.color === 'white' ? 0 : 7);
+}
+
+// Moves a piece to an empty square, bringing the rook along when the king castles
+export function applyMoveToBoard(board: (ChessPiece | null)[][], from: Position, to: Position): (ChessPiece | null)[][] {
+  const newBoard = board.map(r => [...r]);
+  const piece = newBoard[from.row][from.col];
+  if (!piece) return newBoard;
+
+  newBoard[to.row][to.col] = { ...piece, hasMoved: true };
+  newBoard[from.row][from.col] = null;
+
+  if (isCastlingMove(piece, from, to)) {
+    const rookFromCol = to.col > from.col ? 7 : 0;
+    const rookToCol = to.col > from.col ? 5 : 3;
+    const rook = newBoard[from.row][rookFromCol];
+    if (rook) {
+      newBoard[from.row][rookToCol] = { ...rook, hasMoved: true };
+      newBoard[from.row][rookFromCol] = null;
+    }
+  }
+
+  return newBoard;
+}
+
+export function findKing(board: (ChessPiece | null)[][], color: 'white' | 'black'): Position | null {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.type === 'king' && piece.color === color) {
+        return { row, col };
+      }
+    }
+  }
+  return null;
+}
+
+export function isInCheck(board: (ChessPiece | null)[][], color: 'white' | 'black'): boolean {
+  const kingPosition = findKing(board, color);
+  if (!kingPosition) return false;
+
+  const opponentColor = color === 'white' ? 'black' : 'white';
+  return isSquareAttacked(board, kingPosition, opponentColor);
+}
+
+export function isSquareAttacked(board: (ChessPiece | null)[][], square: Position, byColor: 'white' | 'black'): boolean {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== byColor) continue;
+
+      // Castling never attacks anything, and checking it here would recurse
+      const { movement } = getPieceDefinition(piece.type);
+      let attacks: Position[];
+      if (movement.kind === 'pawn') {
+        // Pawns only attack diagonally, even onto empty squares
+        const direction = piece.color === 'white' ? -1 : 1;
+        attacks = [{ row: row + direction, col: col - 1 }, { row: row + direction, col: col + 1 }];
+      } else {
+        attacks = getPatternMoves(board, { row, col }, piece.color, movement);
+      }
+
+      if (attacks.some(move => move.row === square.row && move.col === square.col)) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+// Legal moves are the pseudo-legal moves that cannot leave the mover's king attacked,
+// whatever the dice decide for a capture under the game's combat rules
+export function getLegalMoves(
+  board: (ChessPiece | null)[][],
+  position: Position,
+  enPassantTarget: Position | null = null,
+  rules: CombatRules = DEFAULT_COMBAT_RULES
+): Position[] {
+  const piece = board[position.row][position.col];
+  if (!piece) return [];
+
+  return getValidMoves(board, position, enPassantTarget).filter(move => {
+    return getMoveOutcomeBoards(board, position, move, enPassantTarget, rules).every(outcome => {
+      // Losing the king in a failed attack is never a safe outcome
+      return findKing(outcome, piece.color) !== null && !isInCheck(outcome, piece.color);
+    });
+  });
+}
+
+// Every board a move can leave behind. A quiet move has a single outcome, but a capture
+// is a battle: the attacker only reaches the target square if it wins, stays on its own
+// square if both survive, and is removed from it if the defender wins.
+export function getMoveOutcomeBoards(
+  board: (ChessPiece | null)[][],
+  from: Position,
+  to: Position,
+  enPassantTarget: Position | null = null,
+  rules: CombatRules = DEFAULT_COMBAT_RULES
+): (ChessPiece | null)[][][] {
+  const piece = board[from.row][from.col];
+  if (!piece) return [];
+
+  const defenderPosition = board[to.row][to.col] ? to : getEnPassantVictim(board, from, to, enPassantTarget);
+  if (!defenderPosition) {
+    return [applyMoveToBoard(board, from, to)];
+  }
+
+  const target = board[defenderPosition.row][defenderPosition.col]!;
+  return getPossibleBattleResults(piece, target, rules).map(result => {
+    const newBoard = board.map(r => [...r]);
+    if (result === 'attacker_wins') {
+      newBoard[defenderPosition.row][defenderPosition.col] = null;
+      newBoard[to.row][to.col] = piece;
+      newBoard[from.row][from.col] = null;
+    } else if (result === 'defender_wins') {
+      newBoard[from.row][from.col] = null;
+    }
+    return newBoard;
+  });
+}
+
+export function hasLegalMoves(
+  board: (ChessPiece | null)[][],
+  color: 'white' | 'black',
+  enPassantTarget: Position | null = null,
+  rules: CombatRules = DEFAULT_COMBAT_RULES
+): boolean {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.color === color && getLegalMoves(board, { row, col }, enPassantTarget, rules).length > 0) {
+        return true;
+      }
+    }
+  }
+
+  // Using an ability is a turn too, so a side that can only do that isn't
+  // stalemated
+  return getAbilityUses(board, color).length > 0;
+}
+
+export function isCheckmate(
+  board: (ChessPiece | null)[][],
+  color: 'white' | 'black',
+  enPassantTarget: Position | null = null,
+  rules: CombatRules = DEFAULT_COMBAT_RULES
+): boolean {
+  return isInCheck(board, color) && !hasLegalMoves(board, color, enPassantTarget, rules);
+}
+
+export function isStalemate(
+  board: (ChessPiece | null)[][],
+  color: 'white' | 'black',
+  enPassantTarget: Position | null = null,
+  rules: CombatRules = DEFAULT_COMBAT_RULES
+): boolean {
+  return !isInCheck(board, color) && !hasLegalMoves(board, color, enPassantTarget, rules);
+}
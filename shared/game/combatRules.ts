@@ -0,0 +1,137 @@
+import { z } from "zod";
+
+// How battles are fought, chosen per game like the time control
+
+// 'classic' captures always succeed, 'dice' rolls a d20 for each side,
+// 'deterministic' deals attack minus defense without rolling, and 'attrition'
+// rolls but has the defender always strike back
+export type CombatMode = 'classic' | 'dice' | 'deterministic' | 'attrition';
+
+// The switches below only matter in the modes that roll dice
+export interface CombatRules {
+  mode: CombatMode;
+  // A natural 20 always hits, for CRITICAL_MULTIPLIER times the damage
+  criticalHits: boolean;
+  // A natural 1 misses outright, and the defender strikes back for free
+  fumbles: boolean;
+  // A side ADVANTAGE_LEVEL_GAP or more levels above the other rolls two dice
+  // and keeps the better; the side below it keeps the worse of two
+  advantage: boolean;
+  // The original counter: a defender that outrolls the attacker by more than
+  // 5 hits back for the difference
+  rollGapCounter: boolean;
+}
+
+// Checks rules that arrive from outside, from an online player or a saved game
+export const combatRulesSchema = z.object({
+  mode: z.enum(['classic', 'dice', 'deterministic', 'attrition']),
+  criticalHits: z.boolean(),
+  fumbles: z.boolean(),
+  advantage: z.boolean(),
+  rollGapCounter: z.boolean()
+});
+
+export const CRITICAL_MULTIPLIER = 2;
+export const ADVANTAGE_LEVEL_GAP = 2;
+// A fumbling attacker defends against the counter as if it had rolled this
+export const FUMBLE_DEFENSE_ROLL = 10;
+
+export const DEFAULT_COMBAT_RULES: CombatRules = {
+  mode: 'dice',
+  criticalHits: true,
+  fumbles: true,
+  advantage: true,
+  rollGapCounter: false
+};
+
+export interface CombatModeOption {
+  // Also names the mode in the PGN CombatRules tag, so it must never change
+  mode: CombatMode;
+  label: string;
+  description: string;
+}
+
+export const COMBAT_MODE_OPTIONS: CombatModeOption[] = [
+  {
+    mode: 'classic',
+    label: '♟️ Classic',
+    description: 'Captures always succeed, as in regular chess. The capturing piece still earns XP and levels up.'
+  },
+  {
+    mode: 'dice',
+    label: '🎲 Dice',
+    description: 'Each side adds a d20 to its attack or defense. A capture only succeeds if the damage finishes the defender.'
+  },
+  {
+    mode: 'deterministic',
+    label: '📐 Deterministic',
+    description: 'No dice: a capture deals attack minus defense (at least 1), so every battle can be worked out in advance.'
+  },
+  {
+    mode: 'attrition',
+    label: '🩸 Attrition',
+    description: 'Dice battles where the defender always strikes back, so the attacker pays for every capture.'
+  }
+];
+
+export interface CombatRuleOption {
+  rule: Exclude<keyof CombatRules, 'mode'>;
+  // Names the rule in the PGN CombatRules tag, so it must never change
+  id: string;
+  label: string;
+  description: string;
+}
+
+export const COMBAT_RULE_OPTIONS: CombatRuleOption[] = [
+  {
+    rule: 'criticalHits',
+    id: 'crit',
+    label: 'Critical hits',
+    description: `A natural 20 always hits for ${CRITICAL_MULTIPLIER}x damage`
+  },
+  {
+    rule: 'fumbles',
+    id: 'fumble',
+    label: 'Fumbles',
+    description: 'A natural 1 misses and the defender strikes back'
+  },
+  {
+    rule: 'advantage',
+    id: 'advantage',
+    label: 'Advantage',
+    description: `${ADVANTAGE_LEVEL_GAP}+ levels up: roll twice and keep the best; the lower side keeps the worst`
+  },
+  {
+    rule: 'rollGapCounter',
+    id: 'rollgap',
+    label: 'Roll-gap counters',
+    description: 'A defender that outrolls the attacker by more than 5 hits back for the difference'
+  }
+];
+
+// Whether battles under these rules roll any dice
+export function rollsDice(rules: CombatRules): boolean {
+  return rules.mode === 'dice' || rules.mode === 'attrition';
+}
+
+// The mode and then the rules that are on, e.g. "dice crit fumble advantage",
+// for the PGN tag
+export function formatCombatRules(rules: CombatRules): string {
+  const ids = COMBAT_RULE_OPTIONS.filter(option => rules[option.rule]).map(option => option.id);
+  return [rules.mode, ...ids].join(' ');
+}
+
+// Throws when the text doesn't start with a mode, or names a mode or rule
+// that doesn't exist
+export function parseCombatRules(text: string): CombatRules {
+  const [first, ...ids] = text.trim().split(/\s+/);
+  const mode = COMBAT_MODE_OPTIONS.find(option => option.mode === first)?.mode;
+  if (!mode) throw new Error(`Unknown combat mode "${first}"`);
+  const rules: CombatRules = { mode, criticalHits: false, fumbles: false, advantage: false, rollGapCounter: false };
+  ids.forEach(id => {
+    const option = COMBAT_RULE_OPTIONS.find(candidate => candidate.id === id);
+    if (!option) throw new Error(`Unknown combat rule "${id}"`);
+    rules[option.rule] = true;
+  });
+  return rules;
+}
@@ -0,0 +1,111 @@
+import { ChessPiece, Position } from "./types";
+import { getValidMoves, isCheckmate, isStalemate } from "./chessLogic";
+import { CombatRules } from "./combatRules";
+
+export type DrawReason = 'stalemate' | 'threefold_repetition' | 'fifty_move_rule' | 'insufficient_material';
+
+// Fifty moves by each player, counted in halfmoves
+export const FIFTY_MOVE_LIMIT = 100;
+
+// Identifies a position for repetition counting. Two boards with the same
+// placement are only the same position if every piece also has the same
+// health, level, attribute points (spent and unspent), ability cooldowns and
+// statuses, since those decide how the rest of the game can go.
+export function getPositionKey(
+  board: (ChessPiece | null)[][],
+  currentPlayer: 'white' | 'black',
+  enPassantTarget: Position | null
+): string {
+  const squares: string[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) {
+        squares.push('-');
+        continue;
+      }
+
+      // Kings and rooks carry castling rights through hasMoved
+      const castlingFlag = (piece.type === 'king' || piece.type === 'rook') && !piece.hasMoved ? '*' : '';
+      const { attack, defense, maxHealth } = piece.mods;
+      const points = `${attack}.${defense}.${maxHealth}.${piece.unspentPoints}`;
+      const cooldowns = Object.entries(piece.cooldowns ?? {})
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([ability, turns]) => `:${ability}${turns}`)
+        .join('');
+      const statuses = (piece.statuses ?? []).map(status => `:${status.kind}${status.stacks}/${status.turns}`).join('');
+      squares.push(`${piece.color[0]}${piece.type}${castlingFlag}:${piece.health}:${piece.level}:${points}${cooldowns}${statuses}`);
+    }
+  }
+
+  // The en passant square only matters while some pawn can actually use it
+  const enPassantKey = enPassantTarget && canCaptureEnPassant(board, currentPlayer, enPassantTarget)
+    ? `${enPassantTarget.row}${enPassantTarget.col}`
+    : '-';
+
+  return `${squares.join('/')} ${currentPlayer} ${enPassantKey}`;
+}
+
+function canCaptureEnPassant(board: (ChessPiece | null)[][], color: 'white' | 'black', enPassantTarget: Position): boolean {
+  const pawnRow = enPassantTarget.row + (color === 'white' ? 1 : -1);
+
+  return [enPassantTarget.col - 1, enPassantTarget.col + 1].some(col => {
+    if (col < 0 || col > 7) return false;
+    const piece = board[pawnRow][col];
+    if (!piece || piece.type !== 'pawn' || piece.color !== color) return false;
+    return getValidMoves(board, { row: pawnRow, col }, enPassantTarget)
+      .some(move => move.row === enPassantTarget.row && move.col === enPassantTarget.col);
+  });
+}
+
+// Neither side can ever deliver checkmate: bare kings, a single minor piece,
+// or bishops that all stand on squares of the same colour
+export function hasInsufficientMaterial(board: (ChessPiece | null)[][]): boolean {
+  const minorPieces: { piece: ChessPiece; position: Position }[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.type === 'king') continue;
+      if (piece.type !== 'bishop' && piece.type !== 'knight') return false;
+      minorPieces.push({ piece, position: { row, col } });
+    }
+  }
+
+  if (minorPieces.length <= 1) return true;
+
+  if (minorPieces.every(({ piece }) => piece.type === 'bishop')) {
+    const squareColors = new Set(minorPieces.map(({ position }) => (position.row + position.col) % 2));
+    return squareColors.size === 1;
+  }
+
+  return false;
+}
+
+// Checks whether the player about to move is checkmated or the game is drawn
+export function detectGameEnd(
+  board: (ChessPiece | null)[][],
+  playerToMove: 'white' | 'black',
+  enPassantTarget: Position | null,
+  halfmoveClock: number,
+  repetitions: number,
+  rules: CombatRules
+): { winner: 'white' | 'black' | null; drawReason: DrawReason | null } {
+  if (isCheckmate(board, playerToMove, enPassantTarget, rules)) {
+    return { winner: playerToMove === 'white' ? 'black' : 'white', drawReason: null };
+  }
+
+  let drawReason: DrawReason | null = null;
+  if (isStalemate(board, playerToMove, enPassantTarget, rules)) {
+    drawReason = 'stalemate';
+  } else if (hasInsufficientMaterial(board)) {
+    drawReason = 'insufficient_material';
+  } else if (repetitions >= 3) {
+    drawReason = 'threefold_repetition';
+  } else if (halfmoveClock >= FIFTY_MOVE_LIMIT) {
+    drawReason = 'fifty_move_rule';
+  }
+
+  return { winner: null, drawReason };
+}
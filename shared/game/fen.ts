@@ -0,0 +1,365 @@
+import { ChessPiece, Position, StatusEffect } from "./types";
+import { getMaxHealth, getPieceStats } from "./pieceData";
+import { getPieceDefinition } from "./pieceDefinitions";
+import { STATUS_DEFINITIONS, STATUS_KINDS, StatusKind } from "./statusEffects";
+import { v4 as uuidv4 } from 'uuid';
+
+// Position text format: standard FEN plus an optional seventh field holding the
+// RPG state of every piece, e.g.
+//
+//   rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 ,,,,,,,,,,,,,,,,,,,,10.2.0.0.0.0.0,,,,,,,,,,,
+//
+// is the starting position with a wounded level 2 pawn on e2.
+//
+// The seventh field lists the pieces in FEN placement order (rank 8 to rank 1,
+// file a to h), separated by commas. Each entry is either empty, for a fresh
+// piece, or `health.level.xp.unspentPoints.attackMod.defenseMod.maxHealthMod`
+// with a trailing `*` when the piece has moved, then `~ability:turns` for each
+// ability still cooling down and `!status:turns` for each status it's under,
+// with `xN` after the turns for more than one stack. The field is left out
+// when every piece is fresh, and plain FEN strings load as fresh level 1 pieces.
+
+export interface SerializedPosition {
+  board: (ChessPiece | null)[][];
+  currentPlayer: 'white' | 'black';
+  enPassantTarget: Position | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export const STARTING_POSITION = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+const PIECE_LETTERS: Record<ChessPiece['type'], string> = {
+  pawn: 'p',
+  knight: 'n',
+  bishop: 'b',
+  rook: 'r',
+  queen: 'q',
+  king: 'k'
+};
+
+const HOME_ROW_ORDER: ChessPiece['type'][] = ['rook', 'knight', 'bishop', 'queen', 'king', 'bishop', 'knight', 'rook'];
+
+export function serializePosition(position: SerializedPosition): string {
+  const { board, currentPlayer, enPassantTarget, halfmoveClock, fullmoveNumber } = position;
+  const ranks: string[] = [];
+  const pieceStates: string[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    let rank = '';
+    let emptySquares = 0;
+
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) {
+        emptySquares++;
+        continue;
+      }
+
+      if (emptySquares > 0) {
+        rank += emptySquares;
+        emptySquares = 0;
+      }
+      const letter = PIECE_LETTERS[piece.type];
+      rank += piece.color === 'white' ? letter.toUpperCase() : letter;
+    }
+
+    if (emptySquares > 0) rank += emptySquares;
+    ranks.push(rank);
+  }
+
+  const castlingRights = getCastlingRights(board);
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece) {
+        pieceStates.push(serializePieceState(piece, { row, col }, castlingRights));
+      }
+    }
+  }
+
+  const fields = [
+    ranks.join('/'),
+    currentPlayer === 'white' ? 'w' : 'b',
+    castlingRights || '-',
+    enPassantTarget ? squareName(enPassantTarget) : '-',
+    String(halfmoveClock),
+    String(fullmoveNumber)
+  ];
+
+  if (pieceStates.some(state => state !== '')) {
+    fields.push(pieceStates.join(','));
+  }
+
+  return fields.join(' ');
+}
+
+export function parsePosition(text: string): SerializedPosition {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 7) {
+    throw new Error(`Expected 4 to 7 space-separated fields, found ${fields.length}`);
+  }
+
+  const [placement, activeColor, castlingField, enPassantField, halfmoveField = '0', fullmoveField = '1', rpgField] = fields;
+
+  const board = parsePlacement(placement);
+
+  if (activeColor !== 'w' && activeColor !== 'b') {
+    throw new Error(`Active color must be "w" or "b", found "${activeColor}"`);
+  }
+
+  if (!/^(-|K?Q?k?q?)$/.test(castlingField) || castlingField === '') {
+    throw new Error(`Invalid castling rights "${castlingField}"`);
+  }
+
+  let enPassantTarget: Position | null = null;
+  if (enPassantField !== '-') {
+    enPassantTarget = parseSquare(enPassantField);
+    if (!enPassantTarget || (enPassantTarget.row !== 2 && enPassantTarget.row !== 5)) {
+      throw new Error(`Invalid en passant square "${enPassantField}"`);
+    }
+  }
+
+  const halfmoveClock = parseCount(halfmoveField, 'Halfmove clock', 0);
+  const fullmoveNumber = parseCount(fullmoveField, 'Fullmove number', 1);
+
+  applyPieceStates(board, castlingField === '-' ? '' : castlingField, rpgField);
+
+  return {
+    board,
+    currentPlayer: activeColor === 'w' ? 'white' : 'black',
+    enPassantTarget,
+    halfmoveClock,
+    fullmoveNumber
+  };
+}
+
+function parsePlacement(placement: string): (ChessPiece | null)[][] {
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw new Error(`Piece placement must have 8 ranks, found ${ranks.length}`);
+  }
+
+  const kingCounts = { white: 0, black: 0 };
+  const board = ranks.map((rank, row) => {
+    const squares: (ChessPiece | null)[] = [];
+
+    for (const char of rank) {
+      if (/[1-8]/.test(char)) {
+        for (let i = 0; i < Number(char); i++) squares.push(null);
+        continue;
+      }
+
+      const type = (Object.keys(PIECE_LETTERS) as ChessPiece['type'][])
+        .find(pieceType => PIECE_LETTERS[pieceType] === char.toLowerCase());
+      if (!type) {
+        throw new Error(`Unknown piece "${char}" on rank ${8 - row}`);
+      }
+
+      const color = char === char.toUpperCase() ? 'white' : 'black';
+      if (type === 'king') kingCounts[color]++;
+      squares.push(createFreshPiece(type, color));
+    }
+
+    if (squares.length !== 8) {
+      throw new Error(`Rank ${8 - row} must describe 8 squares, found ${squares.length}`);
+    }
+    return squares;
+  });
+
+  if (kingCounts.white !== 1 || kingCounts.black !== 1) {
+    throw new Error('Each side must have exactly one king');
+  }
+
+  return board;
+}
+
+function applyPieceStates(board: (ChessPiece | null)[][], castlingRights: string, rpgField: string | undefined): void {
+  const positions: Position[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (board[row][col]) positions.push({ row, col });
+    }
+  }
+
+  const states = rpgField === undefined ? positions.map(() => '') : rpgField.split(',');
+  if (states.length !== positions.length) {
+    throw new Error(`RPG field lists ${states.length} pieces but the board has ${positions.length}`);
+  }
+
+  positions.forEach((position, index) => {
+    const piece = board[position.row][position.col]!;
+    const state = states[index];
+
+    if (state === '') {
+      piece.hasMoved = inferHasMoved(piece, position, castlingRights);
+      return;
+    }
+
+    const match = /^(\d+)\.(\d+)\.(\d+)\.(\d+)\.(-?\d+)\.(-?\d+)\.(-?\d+)(\*?)((?:~[a-z-]+:\d+)*)((?:![a-z]+:\d+(?:x\d+)?)*)$/.exec(state);
+    if (!match) {
+      throw new Error(`Invalid RPG state "${state}" for the ${piece.color} ${piece.type} on ${squareName(position)}`);
+    }
+
+    const [, health, level, xp, unspentPoints, attack, defense, maxHealth, moved, cooldownField, statusField] = match;
+    Object.assign(piece, {
+      health: Number(health),
+      level: Number(level),
+      xp: Number(xp),
+      unspentPoints: Number(unspentPoints),
+      mods: { attack: Number(attack), defense: Number(defense), maxHealth: Number(maxHealth) },
+      hasMoved: moved === '*'
+    });
+    if (cooldownField) {
+      piece.cooldowns = parseCooldowns(piece, position, cooldownField);
+    }
+    if (statusField) {
+      piece.statuses = parseStatuses(piece, position, statusField);
+    }
+
+    if (piece.level < 1) {
+      throw new Error(`The ${piece.color} ${piece.type} on ${squareName(position)} must be at least level 1`);
+    }
+    if (piece.health < 1 || piece.health > getMaxHealth(piece)) {
+      throw new Error(`The ${piece.color} ${piece.type} on ${squareName(position)} has ${piece.health} HP, outside 1-${getMaxHealth(piece)}`);
+    }
+  });
+}
+
+function serializePieceState(piece: ChessPiece, position: Position, castlingRights: string): string {
+  const isFresh = piece.health === getPieceStats(piece.type).maxHealth &&
+    piece.level === 1 &&
+    piece.xp === 0 &&
+    piece.unspentPoints === 0 &&
+    piece.mods.attack === 0 &&
+    piece.mods.defense === 0 &&
+    piece.mods.maxHealth === 0 &&
+    !piece.cooldowns &&
+    !piece.statuses &&
+    !!piece.hasMoved === inferHasMoved(piece, position, castlingRights);
+
+  if (isFresh) return '';
+
+  const { attack, defense, maxHealth } = piece.mods;
+  const cooldowns = Object.entries(piece.cooldowns ?? {}).map(([id, turns]) => `~${id}:${turns}`).join('');
+  const statuses = (piece.statuses ?? [])
+    .map(status => `!${status.kind}:${status.turns}${status.stacks > 1 ? `x${status.stacks}` : ''}`)
+    .join('');
+  return `${piece.health}.${piece.level}.${piece.xp}.${piece.unspentPoints}.${attack}.${defense}.${maxHealth}${piece.hasMoved ? '*' : ''}${cooldowns}${statuses}`;
+}
+
+function parseCooldowns(piece: ChessPiece, position: Position, field: string): Record<string, number> {
+  const abilities = getPieceDefinition(piece.type).abilities.map(ability => ability.id);
+  const cooldowns: Record<string, number> = {};
+
+  field.slice(1).split('~').forEach(entry => {
+    const [id, turns] = entry.split(':');
+    if (!abilities.includes(id)) {
+      throw new Error(`The ${piece.color} ${piece.type} on ${squareName(position)} has no ${id} ability`);
+    }
+    cooldowns[id] = parseCount(turns, `The ${id} cooldown`, 1);
+  });
+
+  return cooldowns;
+}
+
+function parseStatuses(piece: ChessPiece, position: Position, field: string): StatusEffect[] {
+  const where = `the ${piece.color} ${piece.type} on ${squareName(position)}`;
+  const statuses: StatusEffect[] = [];
+
+  field.slice(1).split('!').forEach(entry => {
+    const [kind, duration] = entry.split(':');
+    const [turns, stacks = '1'] = duration.split('x');
+    if (!(STATUS_KINDS as readonly string[]).includes(kind)) {
+      throw new Error(`Unknown status "${kind}" on ${where}`);
+    }
+    const definition = STATUS_DEFINITIONS[kind as StatusKind];
+    if (definition.immune.includes(piece.type)) {
+      throw new Error(`${definition.name} has no effect on ${where}`);
+    }
+    if (statuses.some(status => status.kind === kind)) {
+      throw new Error(`${definition.name} is listed twice for ${where}`);
+    }
+
+    const status: StatusEffect = {
+      kind: kind as StatusKind,
+      turns: parseCount(turns, `The ${kind} duration`, 1),
+      stacks: parseCount(stacks, `The ${kind} stacks`, 1)
+    };
+    if (status.stacks > definition.maxStacks) {
+      throw new Error(`${definition.name} stacks at most ${definition.maxStacks} times, found ${status.stacks} on ${where}`);
+    }
+    statuses.push(status);
+  });
+
+  return statuses;
+}
+
+// Plain FEN doesn't record which pieces have moved, so anything away from its
+// starting square counts as moved, and kings and rooks follow the castling rights
+function inferHasMoved(piece: ChessPiece, position: Position, castlingRights: string): boolean {
+  const homeRow = piece.color === 'white' ? 7 : 0;
+  const pawnRow = piece.color === 'white' ? 6 : 1;
+  const letter = (type: 'k' | 'q') => piece.color === 'white' ? type.toUpperCase() : type;
+
+  if (piece.type === 'pawn') return position.row !== pawnRow;
+  if (position.row !== homeRow || HOME_ROW_ORDER[position.col] !== piece.type) return true;
+
+  if (piece.type === 'king') {
+    return !castlingRights.includes(letter('k')) && !castlingRights.includes(letter('q'));
+  }
+  if (piece.type === 'rook') {
+    return !castlingRights.includes(letter(position.col === 7 ? 'k' : 'q'));
+  }
+  return false;
+}
+
+function getCastlingRights(board: (ChessPiece | null)[][]): string {
+  let rights = '';
+
+  (['white', 'black'] as const).forEach(color => {
+    const homeRow = color === 'white' ? 7 : 0;
+    const king = board[homeRow][4];
+    if (!king || king.type !== 'king' || king.color !== color || king.hasMoved) return;
+
+    [[7, 'k'], [0, 'q']].forEach(([col, side]) => {
+      const rook = board[homeRow][col as number];
+      if (rook && rook.type === 'rook' && rook.color === color && !rook.hasMoved) {
+        rights += color === 'white' ? (side as string).toUpperCase() : side;
+      }
+    });
+  });
+
+  return rights;
+}
+
+function createFreshPiece(type: ChessPiece['type'], color: 'white' | 'black'): ChessPiece {
+  return {
+    id: uuidv4(),
+    type,
+    color,
+    health: getPieceStats(type).maxHealth,
+    level: 1,
+    xp: 0,
+    unspentPoints: 0,
+    mods: { attack: 0, defense: 0, maxHealth: 0 }
+  };
+}
+
+function parseCount(value: string, label: string, min: number): number {
+  if (!/^\d+$/.test(value) || Number(value) < min) {
+    throw new Error(`${label} must be a whole number of at least ${min}, found "${value}"`);
+  }
+  return Number(value);
+}
+
+export function squareName(position: Position): string {
+  return `${String.fromCharCode(97 + position.col)}${8 - position.row}`;
+}
+
+export function parseSquare(name: string): Position | null {
+  const match = /^([a-h])([1-8])$/.exec(name);
+  if (!match) return null;
+  return { row: 8 - Number(match[2]), col: match[1].charCodeAt(0) - 97 };
+}
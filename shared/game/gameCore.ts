@@ -0,0 +1,581 @@
+import { ChessPiece, Position, MoveRecord, AttributeAllocation, PromotionPieceType, BattleState } from "./types";
+import {
+  getLegalMoves,
+  applyMoveToBoard,
+  isCastlingMove,
+  isPromotionSquare,
+  getEnPassantVictim,
+  getDoubleStepTarget,
+  isInCheck
+} from "./chessLogic";
+import { resolveBattle, calculateBattleResult } from "./battleSystem";
+import { DrawReason, getPositionKey, detectGameEnd } from "./drawRules";
+import { parsePosition, STARTING_POSITION } from "./fen";
+import { toSAN, promotionSuffix } from "./pgn";
+import { RandomSource } from "./random";
+import { xpToNext, calculateXPAward, getMaxHealth, promotePiece } from "./pieceData";
+import { applyAbility, getPieceAbility, tickCooldowns } from "./abilities";
+import { isStunned, tickStatuses } from "./statusEffects";
+import { TimeControl } from "./timeControls";
+import { CombatRules, DEFAULT_COMBAT_RULES } from "./combatRules";
+
+// The rules of a game as a pure reducer: applyAction takes a game and an
+// action and returns the next game, or throws with a message a player can read
+// when the action isn't allowed. It never reads the time, the network or the
+// screen, so the browser, the server and scripts under Node all share it.
+// Callers pass the current time in for the chess clocks.
+//
+// Clock rules: clocks start once White has made the first move. While a
+// battle is waiting to be dismissed no clock runs, so the dice can be watched
+// at leisure. Level-up points waiting to be spent run their owner's clock,
+// even when it's the other side's turn; otherwise the player to move (or to
+// pick a promotion) is on the clock.
+
+type Color = 'white' | 'black';
+type Board = (ChessPiece | null)[][];
+
+export type WinReason = 'checkmate' | 'resignation' | 'timeout';
+
+export interface GameState {
+  board: Board;
+  currentPlayer: Color;
+  // 'battle' waits for the rolled battle to be shown and dismissed, 'promotion'
+  // for the pawn's owner to pick a piece
+  gamePhase: 'playing' | 'battle' | 'promotion' | 'ended';
+  winner: Color | null;
+  winReason: WinReason | null;
+  drawReason: DrawReason | null;
+  // Square skipped by the last move's pawn double step
+  enPassantTarget: Position | null;
+  // Halfmoves since the last pawn move or battle
+  halfmoveClock: number;
+  fullmoveNumber: number;
+  positionCounts: Record<string, number>;
+  // Position text the game started from
+  startPosition: string;
+  battleState: BattleState | null;
+  pendingPromotion: Position | null;
+  moveHistory: MoveRecord[];
+  // Pieces of either side with level-up points to spend, oldest first
+  levelUpQueue: string[];
+  // null for untimed games
+  timeControl: TimeControl | null;
+  // Milliseconds left as of clockRunningSince
+  clocks: Record<Color, number> | null;
+  runningClock: Color | null;
+  clockRunningSince: number | null;
+  // How battles are fought; they also decide which moves are legal, since a
+  // move may not risk the mover's king whatever the dice decide
+  combatRules: CombatRules;
+}
+
+export type ClockState = Pick<GameState, 'timeControl' | 'clocks' | 'runningClock' | 'clockRunningSince'>;
+
+export type GameAction =
+  // Replays pass the recorded dice that counted instead of rolling new ones
+  | { type: 'move'; player: Color; from: Position; to: Position; rolls?: [number, number] }
+  // Applies the rolled battle; it doesn't matter who dismisses it
+  | { type: 'resolveBattle' }
+  | { type: 'promote'; player: Color; pieceType: PromotionPieceType }
+  | { type: 'ability'; player: Color; abilityId: string; from: Position; to: Position }
+  | { type: 'allocate'; player: Color; pieceId: string; allocation: { attack: number; defense: number; maxHealth: number } }
+  | { type: 'resign'; player: Color };
+
+// A game from any position text; throws when the text isn't a valid position
+export function createGame(
+  startPosition: string = STARTING_POSITION,
+  timeControl: TimeControl | null = null,
+  combatRules: CombatRules = DEFAULT_COMBAT_RULES
+): GameState {
+  const position = parsePosition(startPosition);
+  const { board, currentPlayer, enPassantTarget, halfmoveClock } = position;
+  const { winner, drawReason } = detectGameEnd(board, currentPlayer, enPassantTarget, halfmoveClock, 1, combatRules);
+
+  return {
+    ...position,
+    gamePhase: winner || drawReason ? 'ended' : 'playing',
+    winner,
+    winReason: winner ? 'checkmate' : null,
+    drawReason,
+    positionCounts: { [getPositionKey(board, currentPlayer, enPassantTarget)]: 1 },
+    startPosition: startPosition.trim(),
+    battleState: null,
+    pendingPromotion: null,
+    moveHistory: [],
+    // Loaded pieces may already have points to spend
+    levelUpQueue: board.flat()
+      .filter((piece): piece is ChessPiece => !!piece && piece.unspentPoints > 0)
+      .map(piece => piece.id),
+    ...startingClocks(timeControl),
+    combatRules
+  };
+}
+
+// Full clocks for both sides, waiting for the first move
+export function startingClocks(timeControl: TimeControl | null): ClockState {
+  return {
+    timeControl,
+    clocks: timeControl ? { white: timeControl.initialMs, black: timeControl.initialMs } : null,
+    runningClock: null,
+    clockRunningSince: null
+  };
+}
+
+// Battle dice are drawn from `random`, and only by a capturing move. `now` is
+// the time in milliseconds the action arrived, for the clocks.
+export function applyAction(state: GameState, action: GameAction, random: RandomSource, now: number): GameState {
+  const charged = chargeClock(state, now);
+  // A flag that fell before the action arrived ends the game instead
+  if (charged.gamePhase === 'ended' && state.gamePhase !== 'ended') return charged;
+
+  return startClock(charged, reduce(charged, action, random), now);
+}
+
+// Milliseconds `color` has left at `now`
+export function timeLeft(state: ClockState, color: Color, now: number): number {
+  if (!state.clocks) return Infinity;
+  const running = state.runningClock === color && state.clockRunningSince !== null;
+  return state.clocks[color] - (running ? now - state.clockRunningSince! : 0);
+}
+
+// Ends the game if the running clock has run out by `now`; otherwise returns
+// the game unchanged
+export function checkFlag(state: GameState, now: number): GameState {
+  const color = state.runningClock;
+  if (!color || timeLeft(state, color, now) > 0) return state;
+  return chargeClock(state, now);
+}
+
+// Stops the running clock without handing it to anyone, e.g. while AI vs AI
+// is paused
+export function pauseClock(state: GameState, now: number): GameState {
+  const charged = chargeClock(state, now);
+  return charged.gamePhase === 'ended' ? charged : { ...charged, clockRunningSince: null };
+}
+
+export function resumeClock(state: GameState, now: number): GameState {
+  return state.runningClock && state.clockRunningSince === null ? { ...state, clockRunningSince: now } : state;
+}
+
+// Puts an earlier (or, for a redo, later) state of the game back, with the
+// clocks as they stand now so taking a move back never hands out time
+export function rewindTo(target: GameState, current: GameState, now: number): GameState {
+  const charged = chargeClock(current, now);
+  if (!charged.clocks) return target;
+  if (charged.gamePhase === 'ended') return charged;
+
+  return { ...target, clocks: charged.clocks, clockRunningSince: target.runningClock ? now : null };
+}
+
+// Bills the time since the clock last started to whoever's clock was running
+function chargeClock(state: GameState, now: number): GameState {
+  const color = state.runningClock;
+  if (!state.clocks || !color || state.clockRunningSince === null) return state;
+
+  const remaining = timeLeft(state, color, now);
+  const clocks = { ...state.clocks, [color]: Math.max(0, remaining) };
+  if (remaining > 0) {
+    return { ...state, clocks, clockRunningSince: now };
+  }
+
+  return {
+    ...state,
+    clocks,
+    gamePhase: 'ended',
+    winner: color === 'white' ? 'black' : 'white',
+    winReason: 'timeout',
+    battleState: null,
+    pendingPromotion: null,
+    runningClock: null,
+    clockRunningSince: null
+  };
+}
+
+// Adds the increment for a turn just handed over and starts whichever clock
+// should now run
+function startClock(before: GameState, after: GameState, now: number): GameState {
+  if (!after.clocks || !after.timeControl) return after;
+
+  const handedOver = after.currentPlayer !== before.currentPlayer;
+  const clocks = handedOver
+    ? { ...after.clocks, [before.currentPlayer]: after.clocks[before.currentPlayer] + after.timeControl.incrementMs }
+    : after.clocks;
+  const runningClock = clockOwner(after);
+
+  return { ...after, clocks, runningClock, clockRunningSince: runningClock ? now : null };
+}
+
+function clockOwner(state: GameState): Color | null {
+  if (state.gamePhase === 'ended' || state.gamePhase === 'battle') return null;
+
+  const pieces = state.board.flat().filter((piece): piece is ChessPiece => !!piece);
+  const spending = state.levelUpQueue
+    .map(id => pieces.find(piece => piece.id === id))
+    .find(piece => !!piece);
+  return spending ? spending.color : state.currentPlayer;
+}
+
+function reduce(state: GameState, action: GameAction, random: RandomSource): GameState {
+  switch (action.type) {
+    case 'move':
+      return playMove(state, action.player, action.from, action.to, random, action.rolls);
+    case 'resolveBattle':
+      return finishBattle(state);
+    case 'promote':
+      return promote(state, action.player, action.pieceType);
+    case 'ability':
+      return activateAbility(state, action.player, action.abilityId, action.from, action.to);
+    case 'allocate':
+      return allocate(state, action.player, action.pieceId, action.allocation);
+    case 'resign':
+      return resign(state, action.player);
+  }
+}
+
+function requireTurn(state: GameState, player: Color): void {
+  if (state.gamePhase !== 'playing') {
+    throw new Error("You can't move right now");
+  }
+  if (state.currentPlayer !== player) {
+    throw new Error("It's not your turn");
+  }
+}
+
+function playMove(
+  state: GameState,
+  player: Color,
+  from: Position,
+  to: Position,
+  random: RandomSource,
+  rolls?: [number, number]
+): GameState {
+  requireTurn(state, player);
+
+  const { board, enPassantTarget } = state;
+  const piece = board[from.row][from.col];
+  if (!piece || piece.color !== player) {
+    throw new Error("That isn't your piece");
+  }
+  if (isStunned(piece)) {
+    throw new Error(`The ${piece.type} is stunned`);
+  }
+  if (!getLegalMoves(board, from, enPassantTarget, state.combatRules).some(move => move.row === to.row && move.col === to.col)) {
+    throw new Error('Illegal move');
+  }
+
+  // A capture starts a battle. En passant battles the pawn beside the attacker
+  // while the attacker heads for the empty square behind it.
+  const defenderPosition = board[to.row][to.col] ? to : getEnPassantVictim(board, from, to, enPassantTarget);
+  const defender = defenderPosition ? board[defenderPosition.row][defenderPosition.col] : null;
+
+  if (defenderPosition && defender) {
+    const battle = rolls
+      ? calculateBattleResult(piece, defender, rolls[0], rolls[1], state.combatRules)
+      : resolveBattle(piece, defender, random, state.combatRules);
+    const battling: GameState = {
+      ...state,
+      battleState: { ...battle, attackerPosition: from, defenderPosition, destination: to },
+      gamePhase: 'battle'
+    };
+    // A classic capture can't fail, so there's no battle to show
+    return state.combatRules.mode === 'classic' ? finishBattle(battling) : battling;
+  }
+
+  // Regular move (castling also brings the rook along)
+  const record: MoveRecord = {
+    kind: isCastlingMove(piece, from, to) ? 'castle' : 'move',
+    color: player,
+    piece: piece.type,
+    from,
+    to,
+    san: toSAN(board, from, to, enPassantTarget, state.combatRules),
+    allocations: []
+  };
+
+  return completeMove(state, applyMoveToBoard(board, from, to), to, record, piece.type === 'pawn', getDoubleStepTarget(piece, from, to));
+}
+
+function finishBattle(state: GameState): GameState {
+  const { battleState, board } = state;
+  if (state.gamePhase !== 'battle' || !battleState) {
+    throw new Error('There is no battle to resolve');
+  }
+
+  const { attacker, defender, attackerPosition, defenderPosition, destination, result } = battleState;
+  const newBoard = board.map(row => [...row]);
+
+  if (result === 'attacker_wins') {
+    // The defender is removed and the attacker moves to its destination
+    newBoard[defenderPosition.row][defenderPosition.col] = null;
+    newBoard[attackerPosition.row][attackerPosition.col] = null;
+    newBoard[destination.row][destination.col] = { ...attacker, hasMoved: true };
+  } else if (result === 'defender_wins') {
+    // The attacker is destroyed; the defender stays with its new health
+    newBoard[attackerPosition.row][attackerPosition.col] = null;
+    newBoard[defenderPosition.row][defenderPosition.col] = defender;
+  } else {
+    // Both survive with their new health and stay where they were
+    newBoard[attackerPosition.row][attackerPosition.col] = attacker;
+    newBoard[defenderPosition.row][defenderPosition.col] = defender;
+  }
+
+  // The victor earns XP for the piece it destroyed
+  const victor = result === 'attacker_wins' ? attacker : result === 'defender_wins' ? defender : null;
+  const defeated = victor === attacker ? defender : attacker;
+  const xpAward = victor ? calculateXPAward(victor.level, defeated.level, defeated.type) : 0;
+
+  const record: MoveRecord = {
+    kind: 'battle',
+    color: attacker.color,
+    piece: attacker.type,
+    from: attackerPosition,
+    to: destination,
+    // The board still holds both pieces, so this reads as a capture
+    san: toSAN(board, attackerPosition, destination, state.enPassantTarget, state.combatRules),
+    battle: {
+      defender: defender.type,
+      defenderPosition,
+      attackerRoll: battleState.attackerRoll,
+      defenderRoll: battleState.defenderRoll,
+      damage: battleState.damage,
+      result,
+      xpAwarded: xpAward
+    },
+    allocations: []
+  };
+
+  const next = {
+    ...completeMove(state, newBoard, result === 'attacker_wins' ? destination : null, record, true),
+    battleState: null
+  };
+  // After the board update, so the XP lands on the moved piece
+  return victor ? awardXP(next, victor.id, xpAward) : next;
+}
+
+function promote(state: GameState, player: Color, type: PromotionPieceType): GameState {
+  const square = state.pendingPromotion;
+  const pawn = square ? state.board[square.row][square.col] : null;
+  if (state.gamePhase !== 'promotion' || !square || !pawn || pawn.type !== 'pawn') {
+    throw new Error('There is no pawn to promote');
+  }
+  if (pawn.color !== player) {
+    throw new Error("That isn't your pawn");
+  }
+
+  const newBoard = state.board.map(row => [...row]);
+  newBoard[square.row][square.col] = promotePiece(pawn, type);
+
+  // completeMove left the move's record waiting for this choice
+  const record = state.moveHistory[state.moveHistory.length - 1];
+  return {
+    ...finishTurn(
+      { ...state, moveHistory: state.moveHistory.slice(0, -1) },
+      newBoard,
+      { ...record, san: record.san + promotionSuffix(type), promotion: type },
+      true
+    ),
+    pendingPromotion: null
+  };
+}
+
+function activateAbility(state: GameState, player: Color, abilityId: string, from: Position, to: Position): GameState {
+  requireTurn(state, player);
+
+  const piece = state.board[from.row][from.col];
+  if (!piece || piece.color !== player) {
+    throw new Error("That isn't your piece");
+  }
+  const ability = getPieceAbility(piece, abilityId);
+  if (!ability) {
+    throw new Error(`A ${piece.type} has no ${abilityId} ability`);
+  }
+
+  const { board, effects } = applyAbility(state.board, from, to, abilityId);
+  const next = finishTurn(state, board, {
+    kind: 'ability',
+    color: player,
+    piece: piece.type,
+    from,
+    to,
+    // Nothing moves, so PGN sees a null move
+    san: '--',
+    ability: { id: abilityId, effects },
+    allocations: []
+  }, false);
+
+  if (ability.effect.kind !== 'grantPoints') return next;
+
+  // Granted points wait to be spent like a level-up's
+  const granted = effects
+    .map(effect => board[effect.square.row][effect.square.col]!.id)
+    .filter(id => !next.levelUpQueue.includes(id));
+  return { ...next, levelUpQueue: [...next.levelUpQueue, ...granted] };
+}
+
+// Points can be spent at any time, not just on the owner's turn
+function allocate(
+  state: GameState,
+  player: Color,
+  pieceId: string,
+  allocation: { attack: number; defense: number; maxHealth: number }
+): GameState {
+  const square = findPieceSquare(state.board, pieceId);
+  const piece = square ? state.board[square.row][square.col] : null;
+  if (!square || !piece || piece.color !== player) {
+    throw new Error("That isn't your piece");
+  }
+
+  const { attack, defense, maxHealth } = allocation;
+  const pointsUsed = attack + defense + maxHealth;
+  if ([attack, defense, maxHealth].some(points => !Number.isInteger(points) || points < 0) || pointsUsed === 0) {
+    throw new Error('Invalid allocation');
+  }
+  if (pointsUsed > piece.unspentPoints) {
+    throw new Error('Not enough points');
+  }
+
+  const mods = {
+    attack: piece.mods.attack + attack,
+    defense: piece.mods.defense + defense,
+    maxHealth: piece.mods.maxHealth + maxHealth
+  };
+  const newBoard = state.board.map(row => [...row]);
+  newBoard[square.row][square.col] = {
+    ...piece,
+    mods,
+    // Extra max health arrives as healing too, capped at the new max
+    health: maxHealth > 0 ? Math.min(getMaxHealth({ ...piece, mods }), piece.health + maxHealth) : piece.health,
+    unspentPoints: piece.unspentPoints - pointsUsed
+  };
+
+  // Note the spend on the turn that earned it, so replays can repeat it
+  let moveHistory = state.moveHistory;
+  const lastRecord = moveHistory[moveHistory.length - 1];
+  if (lastRecord) {
+    const spent: AttributeAllocation = { square, attack, defense, maxHealth };
+    moveHistory = [...moveHistory.slice(0, -1), { ...lastRecord, allocations: [...lastRecord.allocations, spent] }];
+  }
+
+  return {
+    ...state,
+    board: newBoard,
+    moveHistory,
+    levelUpQueue: pointsUsed === piece.unspentPoints ? state.levelUpQueue.filter(id => id !== pieceId) : state.levelUpQueue
+  };
+}
+
+function resign(state: GameState, player: Color): GameState {
+  if (state.gamePhase === 'ended') {
+    throw new Error('The game is already over');
+  }
+
+  return {
+    ...state,
+    gamePhase: 'ended',
+    winner: player === 'white' ? 'black' : 'white',
+    winReason: 'resignation',
+    battleState: null,
+    pendingPromotion: null
+  };
+}
+
+function awardXP(state: GameState, pieceId: string, amount: number): GameState {
+  let leveledUp = false;
+
+  const board = state.board.map(row => row.map(piece => {
+    if (!piece || piece.id !== pieceId) return piece;
+
+    const updated = { ...piece, xp: piece.xp + amount };
+    while (updated.xp >= xpToNext(updated.level)) {
+      updated.xp -= xpToNext(updated.level);
+      updated.level++;
+      updated.unspentPoints++;
+      leveledUp = true;
+    }
+    return updated;
+  }));
+
+  const levelUpQueue = leveledUp && !state.levelUpQueue.includes(pieceId)
+    ? [...state.levelUpQueue, pieceId]
+    : state.levelUpQueue;
+
+  return { ...state, board, levelUpQueue };
+}
+
+// Finishes a move or battle. A pawn that ends up on the last rank waits in the
+// 'promotion' phase for its owner's choice.
+function completeMove(
+  state: GameState,
+  board: Board,
+  landing: Position | null,
+  record: MoveRecord,
+  resetsHalfmoveClock: boolean,
+  enPassantTarget: Position | null = null
+): GameState {
+  const piece = landing ? board[landing.row][landing.col] : null;
+
+  if (piece && landing && isPromotionSquare(piece, landing)) {
+    return {
+      ...state,
+      board,
+      gamePhase: 'promotion',
+      pendingPromotion: landing,
+      // The promotion choice completes this record
+      moveHistory: [...state.moveHistory, record]
+    };
+  }
+
+  return finishTurn(state, board, record, resetsHalfmoveClock, enPassantTarget);
+}
+
+// Hands the turn to the opponent, ending the game on checkmate or any draw.
+// The halfmove clock restarts after pawn moves and battles. The mover's
+// statuses tick as its turn ends, and the opponent's ability cooldowns tick
+// down as its turn begins.
+function finishTurn(
+  state: GameState,
+  board: Board,
+  record: MoveRecord,
+  resetsHalfmoveClock: boolean,
+  enPassantTarget: Position | null = null
+): GameState {
+  const nextPlayer: Color = state.currentPlayer === 'white' ? 'black' : 'white';
+  board = tickCooldowns(tickStatuses(board, state.currentPlayer), nextPlayer);
+  const halfmoveClock = resetsHalfmoveClock ? 0 : state.halfmoveClock + 1;
+  const positionKey = getPositionKey(board, nextPlayer, enPassantTarget);
+  const positionCounts = { ...state.positionCounts, [positionKey]: (state.positionCounts[positionKey] || 0) + 1 };
+
+  const { winner, drawReason } = detectGameEnd(
+    board,
+    nextPlayer,
+    enPassantTarget,
+    halfmoveClock,
+    positionCounts[positionKey],
+    state.combatRules
+  );
+  const checkSuffix = winner ? '#' : isInCheck(board, nextPlayer) ? '+' : '';
+
+  return {
+    ...state,
+    board,
+    moveHistory: [...state.moveHistory, { ...record, san: record.san + checkSuffix }],
+    currentPlayer: nextPlayer,
+    enPassantTarget,
+    halfmoveClock,
+    fullmoveNumber: nextPlayer === 'white' ? state.fullmoveNumber + 1 : state.fullmoveNumber,
+    positionCounts,
+    winner,
+    winReason: winner ? 'checkmate' : null,
+    drawReason,
+    gamePhase: winner || drawReason ? 'ended' : 'playing'
+  };
+}
+
+function findPieceSquare(board: Board, pieceId: string): Position | null {
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (board[row][col]?.id === pieceId) return { row, col };
+    }
+  }
+  return null;
+}
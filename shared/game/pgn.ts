@@ -0,0 +1,380 @@
+import { ChessPiece, Position, MoveRecord, PromotionPieceType, AttributeAllocation } from "./types";
+import { getLegalMoves, getEnPassantVictim, isCastlingMove, isPromotionSquare } from "./chessLogic";
+import { squareName, parseSquare, STARTING_POSITION } from "./fen";
+import { BattleResult } from "./battleSystem";
+import { getPieceDefinition } from "./pieceDefinitions";
+import { STATUS_DEFINITIONS } from "./statusEffects";
+import { CombatRules, DEFAULT_COMBAT_RULES, formatCombatRules } from "./combatRules";
+
+// PGN for RPG games. Moves are standard SAN; everything the dice and the level-up
+// screen decided travels in command comments after the move, e.g.
+//
+//   3. Nxe5 {[%battle 14 7 12 attacker_wins] [%alloc e5 1 0 0]} Qh4+
+//
+// Abilities don't move a piece, so they're written as the null move "--"
+// carrying an [%ability id from to] command.
+// The game's combat rules go in a CombatRules tag, e.g. "dice crit fumble advantage".
+
+export interface PGNMove {
+  san: string;
+  battle?: { attackerRoll: number; defenderRoll: number; damage: number; result: BattleResult['result'] };
+  ability?: { id: string; from: Position; to: Position };
+  allocations: AttributeAllocation[];
+}
+
+export interface ParsedPGN {
+  tags: Record<string, string>;
+  moves: PGNMove[];
+  result: string;
+}
+
+export interface PGNExportOptions {
+  startPosition: string;
+  moveHistory: MoveRecord[];
+  result: string;
+  white: string;
+  black: string;
+  // Only meaningful when every battle so far was rolled from this seed
+  seed?: number;
+  combatRules: CombatRules;
+  date?: Date;
+}
+
+const SAN_LETTERS: Record<ChessPiece['type'], string> = {
+  pawn: '',
+  knight: 'N',
+  bishop: 'B',
+  rook: 'R',
+  queen: 'Q',
+  king: 'K'
+};
+
+const PROMOTION_LETTERS: Record<PromotionPieceType, string> = {
+  queen: 'Q',
+  rook: 'R',
+  bishop: 'B',
+  knight: 'N'
+};
+
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// SAN without the check suffix, which depends on how a battle turns out
+export function toSAN(
+  board: (ChessPiece | null)[][],
+  from: Position,
+  to: Position,
+  enPassantTarget: Position | null,
+  rules: CombatRules = DEFAULT_COMBAT_RULES
+): string {
+  const piece = board[from.row][from.col];
+  if (!piece) return '';
+
+  if (isCastlingMove(piece, from, to)) {
+    return to.col > from.col ? 'O-O' : 'O-O-O';
+  }
+
+  const isCapture = !!board[to.row][to.col] || !!getEnPassantVictim(board, from, to, enPassantTarget);
+  const destination = squareName(to);
+
+  if (piece.type === 'pawn') {
+    return isCapture ? `${squareName(from)[0]}x${destination}` : destination;
+  }
+
+  // Name the origin file, rank or both when another piece of the same kind can reach the square
+  const rivals: Position[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const other = board[row][col];
+      if (!other || other.type !== piece.type || other.color !== piece.color) continue;
+      if (row === from.row && col === from.col) continue;
+      if (getLegalMoves(board, { row, col }, enPassantTarget, rules).some(move => move.row === to.row && move.col === to.col)) {
+        rivals.push({ row, col });
+      }
+    }
+  }
+
+  let disambiguation = '';
+  if (rivals.length > 0) {
+    const origin = squareName(from);
+    if (rivals.every(rival => rival.col !== from.col)) {
+      disambiguation = origin[0];
+    } else if (rivals.every(rival => rival.row !== from.row)) {
+      disambiguation = origin[1];
+    } else {
+      disambiguation = origin;
+    }
+  }
+
+  return `${SAN_LETTERS[piece.type]}${disambiguation}${isCapture ? 'x' : ''}${destination}`;
+}
+
+export function promotionSuffix(type: PromotionPieceType): string {
+  return `=${PROMOTION_LETTERS[type]}`;
+}
+
+// Finds the legal move a SAN token stands for in the given position
+export function findMoveBySAN(
+  board: (ChessPiece | null)[][],
+  color: 'white' | 'black',
+  enPassantTarget: Position | null,
+  san: string,
+  rules: CombatRules = DEFAULT_COMBAT_RULES
+): { from: Position; to: Position; promotion?: PromotionPieceType } | null {
+  const cleaned = san.replace(/[+#!?]+$/, '').replace(/0-0-0/, 'O-O-O').replace(/0-0/, 'O-O');
+  const promotionMatch = /=([QRBN])$/.exec(cleaned);
+  const base = promotionMatch ? cleaned.slice(0, -2) : cleaned;
+  const promotion = promotionMatch
+    ? (Object.keys(PROMOTION_LETTERS) as PromotionPieceType[]).find(type => PROMOTION_LETTERS[type] === promotionMatch[1])
+    : undefined;
+
+  const matches: { from: Position; to: Position }[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece || piece.color !== color) continue;
+
+      getLegalMoves(board, { row, col }, enPassantTarget, rules).forEach(to => {
+        if (toSAN(board, { row, col }, to, enPassantTarget, rules) === base) {
+          matches.push({ from: { row, col }, to });
+        }
+      });
+    }
+  }
+
+  if (matches.length !== 1) return null;
+
+  const [move] = matches;
+  const piece = board[move.from.row][move.from.col]!;
+  if (isPromotionSquare(piece, move.to)) {
+    return { ...move, promotion: promotion ?? 'queen' };
+  }
+  return move;
+}
+
+// Readable one-line summary for the move list
+export function describeMove(record: MoveRecord): string {
+  let text: string;
+
+  if (record.kind === 'castle') {
+    text = record.san.replace(/[+#]$/, '');
+  } else if (record.kind === 'ability' && record.ability) {
+    text = describeAbility(record.piece, record.ability);
+  } else if (record.kind === 'battle' && record.battle) {
+    const { defender, defenderPosition, result } = record.battle;
+    const isEnPassant = defenderPosition.row !== record.to.row || defenderPosition.col !== record.to.col;
+    text = `${record.piece} battles ${defender}${isEnPassant ? ' en passant' : ''} - ${result.replace('_', ' ')}`;
+  } else {
+    text = `${record.piece} ${squareName(record.from)} → ${squareName(record.to)}`;
+  }
+
+  if (record.promotion) {
+    text += `, promotes to ${record.promotion}`;
+  }
+
+  return text;
+}
+
+function describeAbility(piece: ChessPiece['type'], ability: NonNullable<MoveRecord['ability']>): string {
+  const definition = getPieceDefinition(piece).abilities.find(candidate => candidate.id === ability.id);
+  if (!definition) return `${piece} uses ${ability.id}`;
+
+  const { kind } = definition.effect;
+  const results = ability.effects.map(({ piece: target, amount, statuses = [] }) => {
+    const change = amount === 0 ? '' : kind === 'grantPoints'
+      ? ` +${amount} point${amount === 1 ? '' : 's'}`
+      : ` ${kind === 'damage' ? '-' : '+'}${amount} HP`;
+    const names = statuses.map(status => STATUS_DEFINITIONS[status].name);
+    return `${target}${change}${names.length > 0 ? ` (${names.join(', ')})` : ''}`;
+  });
+  return `${piece} uses ${definition.name}${results.length > 0 ? `: ${results.join(', ')}` : ''}`;
+}
+
+export function exportPGN(options: PGNExportOptions): string {
+  const { startPosition, moveHistory, result, white, black, seed, combatRules, date = new Date() } = options;
+  const fields = startPosition.trim().split(/\s+/);
+  const isStandardStart = startPosition.trim() === STARTING_POSITION;
+
+  const tags: [string, string][] = [
+    ['Event', 'Chess RPG Battle'],
+    ['Site', '?'],
+    ['Date', `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`],
+    ['Round', '-'],
+    ['White', white],
+    ['Black', black],
+    ['Result', result],
+    // Without it a game loads as ordinary chess
+    ['CombatRules', formatCombatRules(combatRules)]
+  ];
+
+  if (seed !== undefined) {
+    tags.push(['Seed', String(seed)]);
+  }
+
+  if (!isStandardStart) {
+    tags.push(['SetUp', '1'], ['FEN', fields.slice(0, 6).join(' ')]);
+    if (fields.length > 6) {
+      tags.push(['RPGFEN', startPosition.trim()]);
+    }
+  }
+
+  let moveNumber = Number(fields[5] || 1);
+  const tokens: string[] = [];
+
+  moveHistory.forEach((record, index) => {
+    if (record.color === 'white') {
+      tokens.push(`${moveNumber}.`);
+    } else if (index === 0) {
+      tokens.push(`${moveNumber}...`);
+    }
+
+    tokens.push(record.san);
+
+    const commands = recordCommands(record);
+    if (commands.length > 0) {
+      tokens.push(`{${commands.join(' ')}}`);
+    }
+
+    if (record.color === 'black') moveNumber++;
+  });
+
+  tokens.push(result);
+
+  const header = tags.map(([name, value]) => `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`).join('\n');
+  return `${header}\n\n${wrapTokens(tokens)}\n`;
+}
+
+function recordCommands(record: MoveRecord): string[] {
+  const commands: string[] = [];
+
+  if (record.battle) {
+    const { attackerRoll, defenderRoll, damage, result } = record.battle;
+    commands.push(`[%battle ${attackerRoll} ${defenderRoll} ${damage} ${result}]`);
+  }
+  if (record.ability) {
+    commands.push(`[%ability ${record.ability.id} ${squareName(record.from)} ${squareName(record.to)}]`);
+  }
+  record.allocations.forEach(({ square, attack, defense, maxHealth }) => {
+    commands.push(`[%alloc ${squareName(square)} ${attack} ${defense} ${maxHealth}]`);
+  });
+
+  return commands;
+}
+
+function wrapTokens(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+
+  tokens.forEach(token => {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+export function parsePGN(text: string): ParsedPGN {
+  const tags: Record<string, string> = {};
+  const moves: PGNMove[] = [];
+  let result = '*';
+
+  const tokenPattern = /\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]|\{([^}]*)\}|;[^\n]*|\(|\)|\$\d+|[^\s{}()[\];]+/g;
+  let variationDepth = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(text)) !== null) {
+    const [token, tagName, tagValue, comment] = match;
+
+    if (tagName !== undefined) {
+      tags[tagName] = tagValue.replace(/\\(["\\])/g, '$1');
+      continue;
+    }
+    if (token === '(') {
+      variationDepth++;
+      continue;
+    }
+    if (token === ')') {
+      variationDepth = Math.max(0, variationDepth - 1);
+      continue;
+    }
+    // Side variations, line comments and NAGs don't affect the game
+    if (variationDepth > 0 || token.startsWith(';') || token.startsWith('$')) continue;
+
+    if (comment !== undefined) {
+      const lastMove = moves[moves.length - 1];
+      if (lastMove) applyCommands(lastMove, comment);
+      continue;
+    }
+
+    if (RESULT_TOKENS.includes(token)) {
+      result = token;
+      continue;
+    }
+
+    // Move numbers, possibly glued to the move itself ("12.Nf3")
+    const san = token.replace(/^\d+\.+/, '');
+    if (san === '') continue;
+
+    moves.push({ san, allocations: [] });
+  }
+
+  moves.forEach(move => {
+    if (move.san === '--' && !move.ability) {
+      throw new Error('Null moves are only supported for abilities');
+    }
+  });
+
+  return { tags, moves, result };
+}
+
+function applyCommands(move: PGNMove, comment: string): void {
+  const commandPattern = /\[%(\w+)\s+([^\]]*)\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = commandPattern.exec(comment)) !== null) {
+    const [, name, rawArgs] = match;
+    const args = rawArgs.trim().split(/\s+/);
+
+    if (name === 'battle') {
+      const [attackerRoll, defenderRoll, damage, result] = args;
+      if (!['attacker_wins', 'defender_wins', 'both_survive'].includes(result)) {
+        throw new Error(`Invalid battle result "${result}" after ${move.san}`);
+      }
+      move.battle = {
+        attackerRoll: parseRoll(attackerRoll, move.san),
+        defenderRoll: parseRoll(defenderRoll, move.san),
+        damage: Number(damage),
+        result: result as BattleResult['result']
+      };
+    } else if (name === 'ability') {
+      const [id, fromName, toName] = args;
+      const from = parseSquare(fromName);
+      const to = parseSquare(toName);
+      if (!id || !from || !to) {
+        throw new Error(`Invalid ability "${rawArgs}"`);
+      }
+      move.ability = { id, from, to };
+    } else if (name === 'alloc') {
+      const square = parseSquare(args[0]);
+      const [attack, defense, maxHealth] = args.slice(1).map(Number);
+      if (!square || [attack, defense, maxHealth].some(value => !Number.isInteger(value) || value < 0)) {
+        throw new Error(`Invalid allocation "${rawArgs}" after ${move.san}`);
+      }
+      move.allocations.push({ square, attack, defense, maxHealth });
+    }
+    // Other commands (clocks, evaluations...) are ignored
+  }
+}
+
+// A d20 roll, or 0 for a battle fought without dice
+function parseRoll(value: string, san: string): number {
+  const roll = Number(value);
+  if (!Number.isInteger(roll) || roll < 0 || roll > 20) {
+    throw new Error(`Invalid d20 roll "${value}" after ${san}`);
+  }
+  return roll;
+}
@@ -0,0 +1,70 @@
+import { ChessPiece, PromotionPieceType } from "./types";
+import { getPieceDefinition, PieceDefinition } from "./pieceDefinitions";
+import { getStatusModifiers } from "./statusEffects";
+
+export type PieceStats = PieceDefinition['stats'];
+export type PieceAbility = PieceDefinition['abilities'][number];
+
+export function getPieceStats(type: ChessPiece['type']): PieceStats {
+  return getPieceDefinition(type).stats;
+}
+
+export function getPieceDescription(type: ChessPiece['type']): string {
+  return getPieceDefinition(type).description;
+}
+
+export function getPieceAbilities(type: ChessPiece['type']): PieceAbility[] {
+  return getPieceDefinition(type).abilities;
+}
+
+export function getPieceHealthColor(health: number, maxHealth: number): string {
+  const percentage = health / maxHealth;
+  
+  if (percentage > 0.7) return '#4ade80'; // Green
+  if (percentage > 0.4) return '#fbbf24'; // Yellow
+  if (percentage > 0.2) return '#fb923c'; // Orange
+  return '#ef4444'; // Red
+}
+
+// Experience system utility functions
+
+// Base stats plus attribute mods and whatever the piece's statuses add
+export function getEffectiveStats(piece: ChessPiece): PieceStats {
+  const baseStats = getPieceStats(piece.type);
+  const statusModifiers = getStatusModifiers(piece);
+  return {
+    maxHealth: baseStats.maxHealth + piece.mods.maxHealth,
+    attack: Math.max(0, baseStats.attack + piece.mods.attack + statusModifiers.attack),
+    defense: Math.max(0, baseStats.defense + piece.mods.defense + statusModifiers.defense)
+  };
+}
+
+export function getMaxHealth(piece: ChessPiece): number {
+  const baseStats = getPieceStats(piece.type);
+  return baseStats.maxHealth + piece.mods.maxHealth;
+}
+
+// A promoted pawn keeps its identity, level, XP, unspent points and attribute mods.
+// Base stats switch to the new type and current health keeps the same fraction of
+// the (new) max health, so a wounded pawn becomes an equally wounded queen.
+export function promotePiece(pawn: ChessPiece, type: PromotionPieceType): ChessPiece {
+  const healthRatio = pawn.health / getMaxHealth(pawn);
+  const newMaxHealth = getPieceStats(type).maxHealth + pawn.mods.maxHealth;
+  return {
+    ...pawn,
+    type,
+    health: Math.max(1, Math.round(newMaxHealth * healthRatio)),
+    hasMoved: true
+  };
+}
+
+export function xpToNext(level: number): number {
+  return 50 + 50 * (level - 1);
+}
+
+export function calculateXPAward(winnerLevel: number, defeatedLevel: number, defeatedType: ChessPiece['type']): number {
+  const baseXP = getPieceDefinition(defeatedType).xpValue;
+  const levelDelta = defeatedLevel - winnerLevel;
+  const multiplier = Math.max(0.5, 1 + 0.2 * levelDelta);
+  return Math.round(baseXP * multiplier);
+}
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import rawDefinitions from "./pieces.json";
+import { ChessPiece } from "./types";
+import { STATUS_KINDS } from "./statusEffects";
+
+// Every piece's numbers live in pieces.json so they can be rebalanced without
+// touching code. The file is checked when this module loads, so a bad edit
+// stops the server and the page at startup instead of misbehaving mid-game.
+
+const directionSchema = z.tuple([z.number().int().min(-7).max(7), z.number().int().min(-7).max(7)])
+  .refine(([dRow, dCol]) => dRow !== 0 || dCol !== 0, "a direction can't be [0, 0]");
+
+const movementSchema = z.discriminatedUnion('kind', [
+  // Forward one or two squares, capturing diagonally, en passant and promotion
+  z.object({ kind: z.literal('pawn') }),
+  // One jump in each direction, over anything in the way
+  z.object({ kind: z.literal('step'), directions: z.array(directionSchema).min(1) }),
+  // Any distance in each direction until something blocks
+  z.object({ kind: z.literal('slide'), directions: z.array(directionSchema).min(1) }),
+]);
+
+const PIECE_TYPES = ['pawn', 'rook', 'knight', 'bishop', 'queen', 'king'] as const;
+
+// Who an ability can be aimed at. 'movement' reach is the first piece along
+// each line the user moves; a number is how many squares away (in any
+// direction) the target may stand.
+const targetSchema = z.discriminatedUnion('side', [
+  z.object({ side: z.literal('self') }).strict(),
+  z.object({ side: z.literal('ally'), reach: z.union([z.literal('movement'), z.number().int().min(1).max(7)]) }).strict(),
+  z.object({ side: z.literal('enemy'), reach: z.union([z.literal('movement'), z.number().int().min(1).max(7)]) }).strict(),
+]);
+
+const effectSchema = z.discriminatedUnion('kind', [
+  // Restores a share of max health that grows with the user's level
+  z.object({
+    kind: z.literal('heal'),
+    percent: z.number().positive().max(1),
+    percentPerLevel: z.number().min(0),
+    maxPercent: z.number().positive().max(1),
+  }).strict(),
+  // Wounds by a share of the user's attack, but never below 1 HP
+  z.object({ kind: z.literal('damage'), attackRatio: z.number().positive() }).strict(),
+  // Hands out attribute points to spend like a level-up
+  z.object({ kind: z.literal('grantPoints'), points: z.number().int().positive() }).strict(),
+]);
+
+// A status to apply, for how many of the affected piece's turns and with how
+// many stacks
+const statusGrantSchema = z.object({
+  status: z.enum(STATUS_KINDS),
+  turns: z.number().int().min(1).max(9),
+  stacks: z.number().int().min(1).optional(),
+}).strict();
+
+const abilitySchema = z.object({
+  // Names the ability in saved games and PGN, so it must never change
+  id: z.string().regex(/^[a-z][a-z-]*$/, 'ids are lowercase letters and dashes'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  // The owner's turns that must pass before it can be used again
+  cooldown: z.number().int().min(0),
+  // Health the user pays; it can't pay with its last point
+  cost: z.object({ health: z.number().int().min(0) }).strict(),
+  target: targetSchema,
+  // Allies of the target within `radius` squares are affected too, optionally
+  // only pieces of the listed types
+  area: z.object({
+    radius: z.number().int().min(1).max(7),
+    types: z.array(z.enum(PIECE_TYPES)).min(1).optional(),
+  }).strict().optional(),
+  effect: effectSchema,
+  // Applied to every affected piece along with the effect
+  statuses: z.array(statusGrantSchema).optional(),
+}).strict();
+
+export const pieceDefinitionSchema = z.object({
+  description: z.string().min(1),
+  stats: z.object({
+    maxHealth: z.number().int().positive(),
+    attack: z.number().int().min(0),
+    defense: z.number().int().min(0),
+  }).strict(),
+  movement: movementSchema,
+  abilities: z.array(abilitySchema)
+    .refine(abilities => new Set(abilities.map(ability => ability.id)).size === abilities.length, 'ability ids must be unique'),
+  // Statuses a piece it wounds in battle comes away with, if it survives
+  onHit: z.array(statusGrantSchema),
+  // Base XP for defeating the piece
+  xpValue: z.number().int().min(0),
+  aiValue: z.object({
+    // In pawns, for the simpler AIs
+    material: z.number().min(0),
+    // For the expert search; the king is never traded, so it can be 0
+    centipawns: z.number().int().min(0),
+  }).strict(),
+  model: z.object({
+    path: z.string().min(1),
+    scale: z.number().positive(),
+    offsetY: z.number(),
+    // Width, height and depth of the invisible box that catches the pointer
+    collider: z.tuple([z.number().positive(), z.number().positive(), z.number().positive()]),
+  }).strict(),
+}).strict();
+
+const pieceDefinitionsSchema = z.object({
+  pawn: pieceDefinitionSchema,
+  rook: pieceDefinitionSchema,
+  knight: pieceDefinitionSchema,
+  bishop: pieceDefinitionSchema,
+  queen: pieceDefinitionSchema,
+  king: pieceDefinitionSchema,
+}).strict();
+
+export type PieceDefinition = z.infer<typeof pieceDefinitionSchema>;
+export type PieceMovement = z.infer<typeof movementSchema>;
+export type AbilityDefinition = z.infer<typeof abilitySchema>;
+export type PieceDefinitions = Record<ChessPiece['type'], PieceDefinition>;
+
+// Throws one message listing every problem, each with where it is in the file
+export function loadPieceDefinitions(data: unknown, source = 'pieces.json'): PieceDefinitions {
+  const parsed = pieceDefinitionsSchema.safeParse(data);
+  if (!parsed.success) {
+    const problems = parsed.error.errors.map(issue => `  ${issue.path.join('.') || '(top level)'}: ${issue.message}`);
+    throw new Error(`Invalid piece definitions in ${source}:\n${problems.join('\n')}`);
+  }
+  return parsed.data;
+}
+
+export const PIECE_DEFINITIONS = loadPieceDefinitions(rawDefinitions);
+
+export function getPieceDefinition(type: ChessPiece['type']): PieceDefinition {
+  return PIECE_DEFINITIONS[type];
+}
@@ -0,0 +1,48 @@
+// Seedable pseudo-random numbers (mulberry32). The whole generator state is a
+// single 32-bit integer, so it can sit in the game store and be saved or
+// restored alongside the rest of the game.
+
+// Returns a float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+export interface SeededRandom {
+  next: RandomSource;
+  getState: () => number;
+}
+
+export function createSeededRandom(state: number): SeededRandom {
+  let current = state >>> 0;
+
+  return {
+    next: () => {
+      current = (current + 0x6D2B79F5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => current
+  };
+}
+
+// Derives the starting state of an independent stream from a game seed, so
+// battles and the AI don't consume each other's numbers
+export function deriveStreamState(seed: number, stream: 'battle' | 'ai'): number {
+  const salt = stream === 'battle' ? 0x9E3779B9 : 0x85EBCA6B;
+  let h = (seed ^ salt) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x7FEB352D);
+  h = Math.imul(h ^ (h >>> 15), 0x846CA68B);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export function rollD20(random: RandomSource): number {
+  return Math.floor(random() * 20) + 1;
+}
+
+export function randomIndex(random: RandomSource, length: number): number {
+  return Math.floor(random() * length);
+}
@@ -0,0 +1,184 @@
+import { ChessPiece, StatusEffect } from "./types";
+
+// Lasting conditions on a piece: poison and bleed wear it down, a stun pins it
+// in place, shield and inspire strengthen it. Abilities and battles hand them
+// out. Statuses tick as their owner's turn ends, so one lasting a single turn
+// covers the whole of its owner's next turn, and damage over time never takes
+// a piece's last point of health.
+
+type Board = (ChessPiece | null)[][];
+
+export const STATUS_KINDS = ['poison', 'stun', 'shield', 'bleed', 'inspire'] as const;
+export type StatusKind = typeof STATUS_KINDS[number];
+
+export interface StatusDefinition {
+  name: string;
+  icon: string;
+  description: string;
+  // What applying it again does: 'refresh' keeps the longer duration,
+  // 'extend' adds the durations together, 'stack' adds stacks up to maxStacks
+  // and keeps the longer duration
+  stacking: 'refresh' | 'extend' | 'stack';
+  maxStacks: number;
+  // Per stack
+  attack: number;
+  defense: number;
+  damagePerTurn: number;
+  blocksMovement: boolean;
+  // Piece types it has no effect on
+  immune: ChessPiece['type'][];
+}
+
+// Applying a status: how many turns it lasts and how many stacks it adds
+export interface StatusGrant {
+  status: StatusKind;
+  turns: number;
+  stacks?: number;
+}
+
+export const STATUS_DEFINITIONS: Record<StatusKind, StatusDefinition> = {
+  poison: {
+    name: 'Poison',
+    icon: '☠️',
+    description: 'Loses 3 HP per stack as each of its turns ends',
+    stacking: 'stack',
+    maxStacks: 3,
+    attack: 0,
+    defense: 0,
+    damagePerTurn: 3,
+    blocksMovement: false,
+    immune: []
+  },
+  stun: {
+    name: 'Stun',
+    icon: '💫',
+    description: "Can't move or use abilities, though it still defends",
+    stacking: 'refresh',
+    maxStacks: 1,
+    attack: 0,
+    defense: 0,
+    damagePerTurn: 0,
+    blocksMovement: true,
+    // A stunned king in check would be checkmated by the stun alone
+    immune: ['king']
+  },
+  shield: {
+    name: 'Shield',
+    icon: '🛡️',
+    description: '+5 defense',
+    stacking: 'refresh',
+    maxStacks: 1,
+    attack: 0,
+    defense: 5,
+    damagePerTurn: 0,
+    blocksMovement: false,
+    immune: []
+  },
+  bleed: {
+    name: 'Bleed',
+    icon: '🩸',
+    description: 'Loses 1 HP and 1 defense per stack as each of its turns ends',
+    stacking: 'stack',
+    maxStacks: 5,
+    attack: 0,
+    defense: -1,
+    damagePerTurn: 1,
+    blocksMovement: false,
+    immune: []
+  },
+  inspire: {
+    name: 'Inspire',
+    icon: '✨',
+    description: '+4 attack',
+    stacking: 'extend',
+    maxStacks: 1,
+    attack: 4,
+    defense: 0,
+    damagePerTurn: 0,
+    blocksMovement: false,
+    immune: []
+  }
+};
+
+export function getStatus(piece: ChessPiece, kind: StatusKind): StatusEffect | undefined {
+  return piece.statuses?.find(status => status.kind === kind);
+}
+
+export function isStunned(piece: ChessPiece): boolean {
+  return !!piece.statuses?.some(status => STATUS_DEFINITIONS[status.kind].blocksMovement);
+}
+
+// Attack and defense the piece's statuses add (or take away)
+export function getStatusModifiers(piece: ChessPiece): { attack: number; defense: number } {
+  const modifiers = { attack: 0, defense: 0 };
+  piece.statuses?.forEach(status => {
+    const definition = STATUS_DEFINITIONS[status.kind];
+    modifiers.attack += definition.attack * status.stacks;
+    modifiers.defense += definition.defense * status.stacks;
+  });
+  return modifiers;
+}
+
+// Health the piece's statuses will take if they run their course
+export function getPendingStatusDamage(piece: ChessPiece): number {
+  return (piece.statuses ?? []).reduce(
+    (total, status) => total + STATUS_DEFINITIONS[status.kind].damagePerTurn * status.stacks * status.turns,
+    0
+  );
+}
+
+// The piece with the status applied under its stacking rule. Returns the same
+// piece when nothing changes, e.g. for an immune piece.
+export function applyStatus(piece: ChessPiece, grant: StatusGrant): ChessPiece {
+  const definition = STATUS_DEFINITIONS[grant.status];
+  if (definition.immune.includes(piece.type)) return piece;
+
+  const statuses = piece.statuses ?? [];
+  const current = statuses.find(status => status.kind === grant.status);
+  const added = grant.stacks ?? 1;
+  let next: StatusEffect;
+
+  if (!current) {
+    next = { kind: grant.status, turns: grant.turns, stacks: Math.min(added, definition.maxStacks) };
+  } else if (definition.stacking === 'extend') {
+    next = { ...current, turns: current.turns + grant.turns };
+  } else {
+    const stacks = definition.stacking === 'stack' ? Math.min(current.stacks + added, definition.maxStacks) : current.stacks;
+    next = { ...current, turns: Math.max(current.turns, grant.turns), stacks };
+  }
+
+  if (current && current.turns === next.turns && current.stacks === next.stacks) return piece;
+  return {
+    ...piece,
+    statuses: current ? statuses.map(status => status === current ? next : status) : [...statuses, next]
+  };
+}
+
+export function applyStatuses(piece: ChessPiece, grants: StatusGrant[]): ChessPiece {
+  return grants.reduce(applyStatus, piece);
+}
+
+// A turn of `color`'s ends: its pieces take their damage over time and every
+// status comes a turn closer to wearing off
+export function tickStatuses(board: Board, color: 'white' | 'black'): Board {
+  return board.map(row => row.map(piece => {
+    if (!piece || piece.color !== color || !piece.statuses) return piece;
+
+    const damage = piece.statuses.reduce(
+      (total, status) => total + STATUS_DEFINITIONS[status.kind].damagePerTurn * status.stacks,
+      0
+    );
+    const remaining = piece.statuses
+      .map(status => ({ ...status, turns: status.turns - 1 }))
+      .filter(status => status.turns > 0);
+    const { statuses, ...rest } = piece;
+    const health = Math.max(1, piece.health - damage);
+    return remaining.length > 0 ? { ...rest, health, statuses: remaining } : { ...rest, health };
+  }));
+}
+
+// "🩸 Bleed x2 (3)": icon, name, stacks when more than one, and turns left
+export function describeStatus(status: StatusEffect): string {
+  const { icon, name } = STATUS_DEFINITIONS[status.kind];
+  return `${icon} ${name}${status.stacks > 1 ? ` x${status.stacks}` : ''} (${status.turns})`;
+}
@@ -0,0 +1,34 @@
+// Chess clocks. Each side starts with `initialMs` and gains `incrementMs`
+// whenever it hands the turn over.
+export interface TimeControl {
+  initialMs: number;
+  incrementMs: number;
+}
+
+export interface TimeControlPreset {
+  id: string;
+  label: string;
+  // null plays without clocks
+  timeControl: TimeControl | null;
+}
+
+const minutes = (count: number) => count * 60_000;
+const seconds = (count: number) => count * 1000;
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: 'untimed', label: 'Untimed', timeControl: null },
+  { id: 'bullet-1', label: 'Bullet 1+0', timeControl: { initialMs: minutes(1), incrementMs: 0 } },
+  { id: 'bullet-2', label: 'Bullet 2+1', timeControl: { initialMs: minutes(2), incrementMs: seconds(1) } },
+  { id: 'blitz-3', label: 'Blitz 3+2', timeControl: { initialMs: minutes(3), incrementMs: seconds(2) } },
+  { id: 'blitz-5', label: 'Blitz 5+3', timeControl: { initialMs: minutes(5), incrementMs: seconds(3) } },
+  { id: 'rapid-10', label: 'Rapid 10+5', timeControl: { initialMs: minutes(10), incrementMs: seconds(5) } },
+  { id: 'rapid-15', label: 'Rapid 15+10', timeControl: { initialMs: minutes(15), incrementMs: seconds(10) } },
+];
+
+// "4:05", or "0:09.3" once under ten seconds
+export function formatClock(ms: number): string {
+  const clamped = Math.max(0, ms);
+  const totalSeconds = Math.floor(clamped / 1000);
+  const text = `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+  return clamped < 10_000 ? `${text}.${Math.floor((clamped % 1000) / 100)}` : text;
+}
@@ -0,0 +1,95 @@
+import type { BattleBreakdown, BattleResult } from "./battleSystem";
+import type { StatusKind } from "./statusEffects";
+
+export interface ChessPiece {
+  id: string;
+  type: 'pawn' | 'rook' | 'knight' | 'bishop' | 'queen' | 'king';
+  color: 'white' | 'black';
+  health: number;
+  level: number;
+  xp: number;
+  unspentPoints: number;
+  mods: {
+    attack: number;
+    defense: number;
+    maxHealth: number;
+  };
+  hasMoved?: boolean;
+  // Turns of its owner left before each ability (by id) can be used again;
+  // abilities that are ready aren't listed
+  cooldowns?: Record<string, number>;
+  // Conditions it's under, at most one entry per kind
+  statuses?: StatusEffect[];
+}
+
+// Turns left count the owner's turns still to end before it wears off
+export interface StatusEffect {
+  kind: StatusKind;
+  turns: number;
+  stacks: number;
+}
+
+export type PromotionPieceType = 'queen' | 'rook' | 'bishop' | 'knight';
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+export interface BattleState {
+  attacker: ChessPiece;
+  defender: ChessPiece;
+  attackerRoll: number;
+  defenderRoll: number;
+  damage: number;
+  result: 'attacker_wins' | 'defender_wins' | 'both_survive';
+  attackerPosition: Position;
+  defenderPosition: Position;
+  // Where the attacker lands if it wins; differs from defenderPosition for en passant
+  destination: Position;
+  breakdown: BattleBreakdown;
+}
+
+export interface AttributeAllocation {
+  square: Position;
+  attack: number;
+  defense: number;
+  maxHealth: number;
+}
+
+// What an ability did to one piece: the health it restored or took, or the
+// points it granted, depending on the ability's effect, and any statuses it
+// applied
+export interface AbilityEffect {
+  square: Position;
+  piece: ChessPiece['type'];
+  amount: number;
+  statuses?: StatusKind[];
+}
+
+// One turn of the game, detailed enough to replay it exactly
+export interface MoveRecord {
+  kind: 'move' | 'castle' | 'battle' | 'ability';
+  color: 'white' | 'black';
+  piece: ChessPiece['type'];
+  from: Position;
+  // Destination square, or the square an ability was aimed at
+  to: Position;
+  san: string;
+  battle?: {
+    defender: ChessPiece['type'];
+    defenderPosition: Position;
+    attackerRoll: number;
+    defenderRoll: number;
+    damage: number;
+    result: BattleResult['result'];
+    xpAwarded: number;
+  };
+  ability?: {
+    id: string;
+    effects: AbilityEffect[];
+  };
+  promotion?: PromotionPieceType;
+  // Level-up points spent after this turn
+  allocations: AttributeAllocation[];
+}
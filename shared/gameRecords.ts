@@ -0,0 +1,44 @@
+import type { GameState } from "./game/gameCore";
+import type { MoveRecord } from "./game/types";
+import { squareName } from "./game/fen";
+import type { InsertGameEvent } from "./schema";
+
+// Turns the game's history into rows of the saved event log. The browser
+// sends these for local games and the server writes them for online ones.
+
+export function toGameEvent(record: MoveRecord, ply: number): InsertGameEvent {
+  const { battle, ability } = record;
+
+  return {
+    ply,
+    kind: record.kind,
+    color: record.color,
+    piece: record.piece,
+    from: squareName(record.from),
+    to: squareName(record.to),
+    san: record.san,
+    promotion: record.promotion ?? null,
+    defender: battle?.defender ?? null,
+    attackerRoll: battle?.attackerRoll ?? null,
+    defenderRoll: battle?.defenderRoll ?? null,
+    damage: battle?.damage ?? null,
+    battleResult: battle?.result ?? null,
+    xpAwarded: battle?.xpAwarded ?? null,
+    ability: ability?.id ?? null,
+    abilityEffects: ability?.effects ?? null,
+    allocations: record.allocations,
+  };
+}
+
+// Turns that can't change any more. Level-up points are spent after a turn
+// and recorded on it, so the latest turn stays open until the next one starts
+// or the game ends.
+export function settledTurnCount(game: GameState): number {
+  return game.gamePhase === "ended" ? game.moveHistory.length : Math.max(0, game.moveHistory.length - 1);
+}
+
+export function gameResult(game: GameState): { result: string; endReason: string | null } | null {
+  if (game.gamePhase !== "ended") return null;
+  const result = game.winner === "white" ? "1-0" : game.winner === "black" ? "0-1" : "1/2-1/2";
+  return { result, endReason: game.winReason ?? game.drawReason };
+}
@@ -0,0 +1,63 @@
+import { Position, PromotionPieceType } from "./game/types";
+import { GameState } from "./game/gameCore";
+import { TimeControl } from "./game/timeControls";
+import { CombatRules } from "./game/combatRules";
+
+// Messages between the browser and the game server for online play. Clients
+// only ever send intents; the server checks them, rolls every die and answers
+// with the whole authoritative game state.
+
+export const ONLINE_SOCKET_PATH = '/ws/game';
+
+// The game as the server shows it to the players
+export interface OnlineGameState extends GameState {
+  // Kept secret until the game ends, so nobody can work out the next dice
+  seed: number | null;
+}
+
+export type GameIntent =
+  | { type: 'move'; from: Position; to: Position }
+  | { type: 'resolveBattle' }
+  | { type: 'promote'; pieceType: PromotionPieceType }
+  | { type: 'ability'; abilityId: string; from: Position; to: Position }
+  | { type: 'allocate'; pieceId: string; allocation: { attack: number; defense: number; maxHealth: number } }
+  | { type: 'resign' };
+
+export type ClientMessage =
+  | { type: 'create'; color: 'white' | 'black' | 'random'; timeControl: TimeControl | null; combatRules: CombatRules }
+  | { type: 'join'; code: string }
+  // Takes a seat back after a dropped connection or a page reload
+  | { type: 'resume'; code: string; token: string }
+  | { type: 'leave' }
+  | { type: 'intent'; intent: GameIntent }
+  // Asks to take back our last decision, and whatever the opponent did since
+  | { type: 'takeback' }
+  | { type: 'takebackAnswer'; accept: boolean };
+
+export interface SeatedMessage {
+  type: 'seated';
+  code: string;
+  // Proves the seat is ours when resuming
+  token: string;
+  color: 'white' | 'black';
+}
+
+export interface StateMessage {
+  type: 'state';
+  state: OnlineGameState;
+  // Nobody can move until the second seat has been taken
+  opponentSeated: boolean;
+  opponentConnected: boolean;
+  // The server's clock when it sent this, so clocks can be shown in local time
+  serverTime: number;
+  takebackRequestedBy: 'white' | 'black' | null;
+}
+
+export interface OnlineErrorMessage {
+  type: 'error';
+  message: string;
+  // The room or seat is gone, so there's nothing to reconnect to
+  fatal: boolean;
+}
+
+export type ServerMessage = SeatedMessage | StateMessage | OnlineErrorMessage;
@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, bigint, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { GameState } from "./game/gameCore";
+import type { AbilityEffect, AttributeAllocation } from "./game/types";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -13,5 +15,184 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// What the register and login forms send; the same rules apply to both
+export const credentialsSchema = insertUserSchema.extend({
+  username: z.string().trim()
+    .min(3, "Usernames need at least 3 characters")
+    .max(32, "Usernames can't be longer than 32 characters")
+    .regex(/^[A-Za-z0-9_-]+$/, "Usernames can only use letters, digits, - and _"),
+  password: z.string()
+    .min(8, "Passwords need at least 8 characters")
+    .max(128, "Passwords can't be longer than 128 characters"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// A user as the API shows it, without the password hash
+export type PublicUser = Omit<User, "password">;
+
+// Everything needed to carry on an unfinished game where it stopped
+export interface GameSnapshot {
+  game: GameState;
+  battleRandomState: number;
+  // Null for online games, where the server plays no AI
+  aiRandomState: number | null;
+}
+
+export const games = pgTable("games", {
+  id: serial("id").primaryKey(),
+  mode: text("mode", { enum: ["pvp", "pvc", "online"] }).notNull(),
+  // Who saved a local game; online games belong to their participants
+  userId: integer("user_id").references(() => users.id),
+  status: text("status", { enum: ["active", "finished"] }).notNull().default("active"),
+  startPosition: text("start_position").notNull(),
+  // Null when the dice didn't come from a seed, e.g. after replaying an unseeded PGN
+  seed: bigint("seed", { mode: "number" }),
+  // PGN result: '1-0', '0-1' or '1/2-1/2'
+  result: text("result"),
+  // A WinReason or DrawReason
+  endReason: text("end_reason"),
+  snapshot: jsonb("snapshot").$type<GameSnapshot>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  // Set once the result has counted towards ratings, or towards the player's
+  // record against the computer, so it only counts once
+  ratedAt: timestamp("rated_at"),
+});
+
+export const gameParticipants = pgTable("game_participants", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  color: text("color", { enum: ["white", "black"] }).notNull(),
+  name: text("name").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  // Set when the computer plays this side
+  aiDifficulty: text("ai_difficulty", { enum: ["easy", "medium", "hard", "expert"] }),
+}, (table) => [unique().on(table.gameId, table.color)]);
+
+// One row per turn, in order, with everything needed to replay it
+export const gameEvents = pgTable("game_events", {
+  id: serial("id").primaryKey(),
+  gameId: integer("game_id").notNull().references(() => games.id, { onDelete: "cascade" }),
+  // Halfmove index from the start of the game, counting from 0
+  ply: integer("ply").notNull(),
+  kind: text("kind", { enum: ["move", "castle", "battle", "ability"] }).notNull(),
+  color: text("color", { enum: ["white", "black"] }).notNull(),
+  piece: text("piece").notNull(),
+  // Square names; `to` is the square an ability was aimed at
+  from: text("from").notNull(),
+  to: text("to").notNull(),
+  san: text("san").notNull(),
+  promotion: text("promotion"),
+  defender: text("defender"),
+  attackerRoll: integer("attacker_roll"),
+  defenderRoll: integer("defender_roll"),
+  damage: integer("damage"),
+  battleResult: text("battle_result"),
+  xpAwarded: integer("xp_awarded"),
+  // Id of the ability used, and what it did to each piece
+  ability: text("ability"),
+  abilityEffects: jsonb("ability_effects").$type<AbilityEffect[]>(),
+  allocations: jsonb("allocations").$type<AttributeAllocation[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.gameId, table.ply)]);
+
+// Elo ratings of players who've finished a rated game. Only online games
+// against other players are rated; see server/ratings.ts.
+export const ratings = pgTable("ratings", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  rating: integer("rating").notNull(),
+  gamesPlayed: integer("games_played").notNull().default(0),
+  wins: integer("wins").notNull().default(0),
+  losses: integer("losses").notNull().default(0),
+  draws: integer("draws").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Each player's results against each computer level. They don't count towards
+// ratings, since games against the computer are played in the browser.
+export const aiRecords = pgTable("ai_records", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  difficulty: text("difficulty", { enum: ["easy", "medium", "hard", "expert"] }).notNull(),
+  wins: integer("wins").notNull().default(0),
+  losses: integer("losses").notNull().default(0),
+  draws: integer("draws").notNull().default(0),
+}, (table) => [unique().on(table.userId, table.difficulty)]);
+
+export const insertGameSchema = createInsertSchema(games).pick({
+  mode: true,
+  startPosition: true,
+  seed: true,
+});
+
+export const insertGameParticipantSchema = createInsertSchema(gameParticipants).pick({
+  color: true,
+  name: true,
+  aiDifficulty: true,
+});
+
+const squareSchema = z.object({ row: z.number().int().min(0).max(7), col: z.number().int().min(0).max(7) });
+const pointsSchema = z.number().int().min(0);
+
+export const insertGameEventSchema = createInsertSchema(gameEvents, {
+  allocations: z.array(z.object({ square: squareSchema, attack: pointsSchema, defense: pointsSchema, maxHealth: pointsSchema })),
+  abilityEffects: z.array(z.object({
+    square: squareSchema,
+    piece: z.enum(["pawn", "rook", "knight", "bishop", "queen", "king"]),
+    amount: pointsSchema,
+    statuses: z.array(z.enum(["poison", "stun", "shield", "bleed", "inspire"])).optional(),
+  })).nullish(),
+}).omit({
+  id: true,
+  gameId: true,
+  createdAt: true,
+});
+
+export type InsertGame = z.infer<typeof insertGameSchema> & { snapshot: GameSnapshot; userId?: number | null };
+export type Game = typeof games.$inferSelect;
+export type InsertGameParticipant = z.infer<typeof insertGameParticipantSchema> & { userId?: number | null };
+export type GameParticipant = typeof gameParticipants.$inferSelect;
+export type InsertGameEvent = z.infer<typeof insertGameEventSchema>;
+export type GameEvent = typeof gameEvents.$inferSelect;
+
+export type Rating = typeof ratings.$inferSelect;
+export type AIRecord = typeof aiRecords.$inferSelect;
+export type AILevel = AIRecord["difficulty"];
+
+// One player's result in a finished game, with the rating it leads to
+export interface PlayerResult {
+  userId: number;
+  // 1 for a win, 0.5 for a draw, 0 for a loss
+  score: number;
+  rating: number;
+}
+
+// A player's result in a finished game against the computer
+export interface AIResult {
+  userId: number;
+  difficulty: AILevel;
+  // 1 for a win, 0.5 for a draw, 0 for a loss
+  score: number;
+}
+
+export interface LeaderboardEntry extends Omit<Rating, "updatedAt"> {
+  rank: number;
+  username: string;
+  aiRecords: Pick<AIRecord, "difficulty" | "wins" | "losses" | "draws">[];
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  total: number;
+}
+
+export interface GameSummary extends Omit<Game, "snapshot"> {
+  participants: GameParticipant[];
+}
+
+export interface GameDetails extends Game {
+  participants: GameParticipant[];
+  events: GameEvent[];
+}